@@ -1,71 +1,105 @@
 import {HttpStatus} from './enums';
+import {getRequestId} from './context';
+import type {HttpResBody} from './types';
 
 /**
  * ApiRes class for standardizing API responses
+ * @template T - The type of the result
  */
-export class ApiRes {
+export class ApiRes<T = any> {
+  /** ETag of the response, computed from the body when `value` is omitted */
+  public etag?: {value?: string; weak: boolean};
+  /** Last-Modified date of the response */
+  public lastModified?: Date;
+
   /**
    * Creates an instance of ApiRes.
-   * @param {any} result - The result of the operation
+   * @param {T} result - The result of the operation
    * @param {number} status - The HTTP status code
    * @param {string} message - The response message
    */
   constructor(
-    readonly result: any = {},
+    readonly result: T = {} as T,
     readonly status: number = HttpStatus.OK,
     readonly message: string = 'Operation successful',
   ) {}
 
   /**
    * Returns the JSON representation of the response.
+   * Includes the request id when the `requestId` middleware is used.
    * @returns The JSON representation of the response
    */
-  public toJson() {
-    return {
+  public toJson(): HttpResBody<T> {
+    const obj: HttpResBody<T> = {
       status: this.status,
       message: this.message,
       result: this.result,
     };
+    const requestId = getRequestId();
+    if (requestId) obj['requestId'] = requestId;
+    return obj;
+  }
+
+  /**
+   * Sets the `ETag` of the response. Safe (`GET`/`HEAD`) responses get a weak
+   * ETag computed from the body by default.
+   * @param {string} [value] - The entity tag (e.g. a row version), computed from the body if omitted.
+   * @param {boolean} [weak=false] - Send a weak ETag.
+   * @returns {this} - The same response, for chaining.
+   */
+  public withETag(value?: string, weak: boolean = false): this {
+    this.etag = {value, weak};
+    return this;
+  }
+
+  /**
+   * Sets the `Last-Modified` date of the response.
+   * @param {Date | string | number} date - The last modification time.
+   * @returns {this} - The same response, for chaining.
+   */
+  public withLastModified(date: Date | string | number): this {
+    this.lastModified = new Date(date);
+    return this;
   }
 
   /**
    * Creates an OK (200) response.
-   * @param {any} result - The result to be included in the response
+   * @param {T} result - The result to be included in the response
    * @param {string} [message='Request processed successfully'] - The response message
-   * @returns {ApiRes} An ApiRes instance with OK status
+   * @returns {ApiRes<T>} An ApiRes instance with OK status
    */
-  static ok(
-    result: any,
+  static ok<T>(
+    result: T,
     message: string = 'Request processed successfully',
-  ): ApiRes {
+  ): ApiRes<T> {
     return new ApiRes(result, HttpStatus.OK, message);
   }
 
   /**
    * Creates a Created (201) response.
-   * @param {any} result - The result to be included in the response
+   * @param {T} result - The result to be included in the response
    * @param {string} [message='Resource created successfully'] - The response message
-   * @returns {ApiRes} An ApiRes instance with Created status
+   * @returns {ApiRes<T>} An ApiRes instance with Created status
    */
-  static created(
-    result: any,
+  static created<T>(
+    result: T,
     message: string = 'Resource created successfully',
-  ): ApiRes {
+  ): ApiRes<T> {
     return new ApiRes(result, HttpStatus.CREATED, message);
   }
 
   /**
    * Creates a paginated OK (200) response.
-   * @param {any} data - The paginated data
-   * @param {object} meta - Metadata for pagination
+   * @param {T} data - The paginated data
+   * @param {M} meta - Metadata for pagination
    * @param {string} [message='Data retrieved successfully'] - The response message
-   * @returns {ApiRes} An ApiRes instance with OK status and paginated data
+   * @returns {ApiRes<M & {data: T}>} An ApiRes instance with OK status and paginated data
    */
-  static paginated(
-    data: any,
-    meta: object,
+  static paginated<T, M extends object>(
+    data: T,
+    meta: M,
     message: string = 'Data retrieved successfully',
-  ): ApiRes {
+  ): ApiRes<M & {data: T}> {
     return new ApiRes({...meta, data}, HttpStatus.OK, message);
   }
 }
@@ -0,0 +1,155 @@
+import {createHttpError} from './errors';
+import type {HttpError} from './errors';
+import type {
+  Client,
+  RouteDef,
+  ClientInput,
+  ClientOptions,
+  HttpResBody,
+} from './types';
+
+/** Request parts of a client call, without route-specific typing. */
+type CallInput = {
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Builds the URL of a route call from the path parameters and the query.
+ * @param {string} baseUrl - The API base URL.
+ * @param {string} path - The route path (e.g. `/users/:id`).
+ * @param {CallInput} input - The request parts.
+ * @returns {URL} - The request URL.
+ * @throws {Error} - If a path parameter is missing.
+ */
+const buildUrl = (baseUrl: string, path: string, input: CallInput): URL => {
+  const {params = {}, query = {}} = input;
+  const pathname = path.replace(/:(\w+)/g, (_, name: string) => {
+    if (params[name] === undefined || params[name] === null)
+      throw new Error(`Missing path parameter "${name}" for ${path}.`);
+    return encodeURIComponent(String(params[name]));
+  });
+  const url = new URL(baseUrl.replace(/\/+$/, '') + pathname);
+  for (const [key, value] of Object.entries(query))
+    for (const item of [value].flat())
+      if (item !== undefined) url.searchParams.append(key, String(item));
+  return url;
+};
+
+/** Members of problem details bodies that are not extensions. */
+const PROBLEM_MEMBERS = new Set([
+  'type',
+  'title',
+  'status',
+  'detail',
+  'messages',
+  'code',
+  'instance',
+  'requestId',
+]);
+
+/**
+ * Rebuilds an HttpError from an error body: the default `toJson()` shape,
+ * RFC 9457 problem details, or an envelope nesting the error under `error`
+ * (see `registerEnvelope`). Keeps the `code` and `requestId`.
+ *
+ * @param {number} status - The response status.
+ * @param {string} statusText - The response status text, the message of bodies without one.
+ * @param {any} data - The parsed body.
+ * @returns {HttpError} - The error matching the status.
+ */
+const readError = (
+  status: number,
+  statusText: string,
+  data: any,
+): HttpError => {
+  const body = data && typeof data === 'object' ? data : {};
+  const inner =
+    body.error && typeof body.error === 'object' ? body.error : body;
+  let message = inner.message ?? statusText;
+  let detail = inner.detail;
+
+  if (typeof body.type === 'string' && typeof body.title === 'string') {
+    // Problem details: the message is `detail`, extension members the detail
+    message = body.messages ?? body.detail ?? body.title;
+    const extensions = Object.entries(body).filter(
+      ([key]) => !PROBLEM_MEMBERS.has(key),
+    );
+    detail = extensions.length ? Object.fromEntries(extensions) : undefined;
+  }
+
+  const error = createHttpError(status, message, detail);
+  const code = inner.code ?? body.code;
+  if (typeof code === 'string') error.withCode(code);
+  const requestId = inner.requestId ?? body.requestId ?? body.meta?.requestId;
+  if (typeof requestId === 'string') error.requestId = requestId;
+  return error;
+};
+
+/**
+ * Creates a typed fetch client from route contracts defined with `defineRoute`.
+ *
+ * - Each route becomes a method taking `{params, query, body, headers}`.
+ * - Resolves with the typed `ApiRes` body (`{status, message, result}`).
+ * - Rejects with the `HttpError` subclass matching the response status
+ *   (e.g. `NotFoundError`), rebuilt from the error body (default, problem
+ *   details or `{error}` envelope) with its `code` and `requestId`.
+ * - Throws before sending when a path parameter is missing.
+ *
+ * @param {Record<string, RouteDef>} routes - The route contracts, keyed by method name.
+ * @param {ClientOptions} options - Base URL, fetch implementation and default headers.
+ * @returns {Client} - The typed client.
+ *
+ * @example
+ * const api = createClient({getUser, createUser}, {baseUrl: 'https://api.example.com'});
+ *
+ * try {
+ *   const {result} = await api.getUser({params: {id: '42'}}); // result: User
+ * } catch (err) {
+ *   if (err instanceof NotFoundError) showNotFound();
+ * }
+ */
+export const createClient = <R extends Record<string, RouteDef>>(
+  routes: R,
+  options: ClientOptions,
+): Client<R> => {
+  const {baseUrl, fetch: request = fetch, headers = {}} = options;
+
+  const call = async (
+    route: RouteDef,
+    input: CallInput = {},
+  ): Promise<HttpResBody> => {
+    const init: RequestInit & {headers: Record<string, string>} = {
+      // Routes registered for every method are called with GET
+      method: route.method === 'all' ? 'GET' : route.method.toUpperCase(),
+      headers: {
+        Accept: 'application/json',
+        ...(typeof headers === 'function' ? await headers() : headers),
+        ...input.headers,
+      },
+    };
+    if (input.body !== undefined) {
+      init.headers['Content-Type'] = 'application/json';
+      init.body = JSON.stringify(input.body);
+    }
+
+    const res = await request(buildUrl(baseUrl, route.path, input), init);
+    const text = await res.text();
+    let data: any = text;
+    try {
+      data = text ? JSON.parse(text) : undefined;
+    } catch {
+      // Keep non-JSON bodies as text
+    }
+    if (res.ok) return data;
+    throw readError(res.status, res.statusText, data);
+  };
+
+  const entries = Object.entries(routes).map(([name, route]) => [
+    name,
+    (input?: ClientInput<typeof route>) => call(route, input as CallInput),
+  ]);
+  return Object.fromEntries(entries);
+};
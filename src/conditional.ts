@@ -0,0 +1,185 @@
+import {createHash} from 'crypto';
+import {ApiRes} from './api-res';
+import {NoContentRes} from './results';
+import {HttpStatus} from './enums';
+import {PreconditionFailedError, PreconditionRequiredError} from './errors';
+import type {Request} from 'express';
+import type {ConditionalValidators} from './types';
+
+/**
+ * Formats an entity tag as a quoted `ETag` header value.
+ * @param {string} value - The tag, quoted (`"v1"`, `W/"v1"`) or not (`v1`).
+ * @param {boolean} [weak=false] - Mark an unquoted tag as weak.
+ * @returns {string} - The quoted tag, e.g. `"v1"` or `W/"v1"`.
+ */
+export const formatETag = (value: string, weak: boolean = false): string =>
+  /^(W\/)?"/.test(value) ? value : `${weak ? 'W/' : ''}"${value}"`;
+
+/**
+ * Computes an entity tag from the JSON representation of a value.
+ * @param {unknown} value - The value to hash.
+ * @param {boolean} [weak=false] - Return a weak tag.
+ * @returns {string} - The quoted tag.
+ *
+ * @example
+ * const etag = etagOf({id: user.id, version: user.version});
+ */
+export const etagOf = (value: unknown, weak: boolean = false): string => {
+  const hash = createHash('sha1')
+    .update(JSON.stringify(value) ?? '')
+    .digest('base64url');
+  return formatETag(hash, weak);
+};
+
+/** Checks if a method only reads the resource. */
+const isSafe = (method: string): boolean =>
+  method === 'GET' || method === 'HEAD';
+
+/**
+ * Checks if any tag of an `If-Match`/`If-None-Match` header matches an entity tag.
+ * @param {string} header - The comma-separated tags, or `*`.
+ * @param {string} etag - The quoted entity tag of the resource.
+ * @param {boolean} weak - Use weak comparison (ignore `W/`), else weak tags never match.
+ * @returns {boolean} - True if a tag matches.
+ */
+const matchesETag = (header: string, etag: string, weak: boolean): boolean => {
+  if (header.trim() === '*') return true;
+  const opaque = (tag: string) => tag.replace(/^W\//, '');
+  return header
+    .split(',')
+    .map(tag => tag.trim())
+    .some(tag =>
+      weak
+        ? opaque(tag) === opaque(etag)
+        : tag === etag && !tag.startsWith('W/'),
+    );
+};
+
+/**
+ * Parses an HTTP date header into seconds.
+ * @param {string | undefined} value - The header value.
+ * @returns {number} - Seconds since the epoch, or NaN.
+ */
+const parseDate = (value: string | undefined): number =>
+  value ? Math.floor(Date.parse(value) / 1000) : NaN;
+
+/**
+ * Evaluates the conditional headers of a request against resource validators.
+ *
+ * - `GET`/`HEAD`: returns true when `If-None-Match` or `If-Modified-Since`
+ *   shows the client's copy is current, i.e. a 304 should be sent.
+ * - Other methods: throws `PreconditionFailedError` (412) when `If-Match`,
+ *   `If-Unmodified-Since` or `If-None-Match` fails, and
+ *   `PreconditionRequiredError` (428) when `required` is set and no
+ *   precondition is sent.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {ConditionalValidators} validators - The current `etag` and `lastModified` of the resource.
+ * @returns {boolean} - True if the response should be 304 Not Modified.
+ * @throws {PreconditionFailedError} - If a write precondition fails.
+ * @throws {PreconditionRequiredError} - If `required` is set and no precondition is sent.
+ *
+ * @example
+ * const user = await users.get(req.params.id);
+ * checkPreconditions(req, {etag: String(user.version), required: true});
+ * await users.update(user, req.body);
+ */
+export const checkPreconditions = (
+  req: Request,
+  validators: ConditionalValidators,
+): boolean => {
+  const {weak, required = false} = validators;
+  const etag =
+    validators.etag !== undefined
+      ? formatETag(validators.etag, weak)
+      : undefined;
+  const modified =
+    validators.lastModified !== undefined
+      ? Math.floor(new Date(validators.lastModified).getTime() / 1000)
+      : undefined;
+
+  const ifMatch = req.get('If-Match');
+  const ifNoneMatch = req.get('If-None-Match');
+  const ifUnmodifiedSince = parseDate(req.get('If-Unmodified-Since'));
+
+  if (!isSafe(req.method)) {
+    if (required && !ifMatch && isNaN(ifUnmodifiedSince))
+      throw new PreconditionRequiredError(
+        'If-Match or If-Unmodified-Since header is required',
+      );
+    const failed = ifMatch
+      ? !etag || !matchesETag(ifMatch, etag, false)
+      : modified !== undefined &&
+        !isNaN(ifUnmodifiedSince) &&
+        modified > ifUnmodifiedSince;
+    const exists = ifNoneMatch && etag && matchesETag(ifNoneMatch, etag, true);
+    if (failed || exists)
+      throw new PreconditionFailedError('Precondition failed', {etag});
+    return false;
+  }
+
+  if (ifNoneMatch) return !!etag && matchesETag(ifNoneMatch, etag, true);
+  const ifModifiedSince = parseDate(req.get('If-Modified-Since'));
+  return (
+    modified !== undefined &&
+    !isNaN(ifModifiedSince) &&
+    modified <= ifModifiedSince
+  );
+};
+
+/**
+ * Result that evaluates conditional request headers before running its action.
+ *
+ * - `GET`/`HEAD`: sends 304 Not Modified without running the action when the
+ *   client's copy is current, otherwise adds the validators to a returned `ApiRes`.
+ * - Writes: rejects with 412 when `If-Match`/`If-Unmodified-Since` fails (or
+ *   428 when `required` is set and none is sent), so the action only runs
+ *   against the version the client has seen.
+ *
+ * @example
+ * // Optimistic concurrency: update only if the client has the current version
+ * app.put('/users/:id', handler(async req => {
+ *   const user = await users.get(req.params.id);
+ *   return new ConditionalRes({etag: String(user.version), required: true}, async () => {
+ *     const updated = await users.update(user, req.body);
+ *     return ApiRes.ok(updated).withETag(String(updated.version));
+ *   });
+ * }));
+ */
+export class ConditionalRes {
+  /**
+   * Creates an instance of ConditionalRes.
+   * @param {ConditionalValidators} validators - The current `etag` and `lastModified` of the resource.
+   * @param {() => unknown} action - Produces the result when the preconditions pass.
+   */
+  constructor(
+    readonly validators: ConditionalValidators,
+    readonly action: () => unknown,
+  ) {}
+
+  /**
+   * Evaluates the preconditions and runs the action.
+   * @param {Request} req - The Express request object.
+   * @returns {Promise<unknown>} - The action's result, or a 304 result.
+   */
+  public async resolve(req: Request): Promise<unknown> {
+    const {etag, weak, lastModified} = this.validators;
+    const safe = isSafe(req.method);
+    if (checkPreconditions(req, this.validators)) {
+      const headers: Record<string, string> = {};
+      if (etag !== undefined) headers['ETag'] = formatETag(etag, weak);
+      if (lastModified !== undefined)
+        headers['Last-Modified'] = new Date(lastModified).toUTCString();
+      return new NoContentRes({status: HttpStatus.NOT_MODIFIED, headers});
+    }
+
+    const value = await this.action();
+    // Reads return the representation the validators describe
+    if (safe && value instanceof ApiRes) {
+      if (etag !== undefined) value.etag ??= {value: etag, weak: !!weak};
+      if (lastModified !== undefined)
+        value.lastModified ??= new Date(lastModified);
+    }
+    return value;
+  }
+}
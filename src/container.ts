@@ -0,0 +1,273 @@
+import {AsyncLocalStorage} from 'async_hooks';
+import {bindEmitters, settled} from './lifecycle';
+import type {Request, RequestHandler} from 'express';
+import type {
+  Token,
+  Provider,
+  Constructor,
+  ProviderScope,
+  InjectableOptions,
+} from './types';
+
+/** Values of one scope, in creation order for disposal. */
+type Instances = Map<Provider, Promise<unknown>>;
+
+/** State of the current request scope. */
+type RequestScope = {req: Request; instances: Instances};
+
+/** Options of classes decorated with `Injectable`. */
+const injectables = new WeakMap<Constructor<any>, InjectableOptions>();
+
+/**
+ * Typed token for values that are not classes (e.g. config, the current user).
+ * @template T - The type of the provided value.
+ *
+ * @example
+ * export const CurrentUser = new InjectionToken<User>('CurrentUser');
+ */
+export class InjectionToken<T> {
+  /** Phantom field carrying the value type */
+  declare readonly type?: T;
+
+  /**
+   * @param {string} description - Name of the token, used in error messages.
+   */
+  constructor(readonly description: string) {}
+
+  public toString(): string {
+    return `InjectionToken(${this.description})`;
+  }
+}
+
+/**
+ * Class decorator that sets the scope and constructor dependencies of a class.
+ *
+ * @param {InjectableOptions} [options] - Scope and dependencies.
+ * @param {ProviderScope} [options.scope='transient'] - `singleton`, `transient` or `request`.
+ * @param {Token[]} [options.deps] - Constructor dependencies, in parameter order.
+ *
+ * @example
+ * \@Injectable({scope: 'singleton', deps: [Database]})
+ * class UserService {
+ *   constructor(private db: Database) {}
+ * }
+ */
+export const Injectable =
+  (options: InjectableOptions = {}) =>
+  (value: Constructor<any>, context: ClassDecoratorContext): void => {
+    if (context.kind !== 'class')
+      throw new Error('@Injectable can only decorate classes.');
+    injectables.set(value, options);
+  };
+
+/** Gets a readable name of a token. */
+const nameOf = (token: Token): string =>
+  typeof token === 'function' ? token.name : token.description;
+
+/**
+ * Dependency injection container with singleton, transient and per-request scopes.
+ *
+ * - Classes resolve without registration, using their `Injectable` options.
+ * - Request-scoped values live for one request (`requestScope()` middleware)
+ *   and are disposed once the response closes and its handlers have settled.
+ * - Singletons cannot depend on request-scoped values.
+ * - `override` swaps in fakes for tests without touching registrations.
+ *
+ * @example
+ * const container = new Container()
+ *   .register(Database, {scope: 'singleton', useFactory: () => connect(), dispose: db => db.close()})
+ *   .register(CurrentUser, {scope: 'request', useFactory: (_, req) => req.user});
+ *
+ * app.use(container.requestScope());
+ * app.get('/me', proxyWrapper(UserController, container).me);
+ */
+export class Container {
+  private readonly providers = new Map<Token, Provider>();
+  private readonly overrides = new Map<Token, Provider>();
+  private readonly singletons: Instances = new Map();
+  private readonly storage = new AsyncLocalStorage<RequestScope>();
+
+  /**
+   * Registers the provider of a token, replacing any previous one.
+   * @param {Token<T>} token - The class or injection token.
+   * @param {Provider<T>} [provider] - How to create the value, default the class itself.
+   * @returns {this} - The same container, for chaining.
+   */
+  public register<T>(token: Token<T>, provider: Provider<T> = {}): this {
+    this.providers.set(token, provider);
+    return this;
+  }
+
+  /**
+   * Overrides the provider of a token, e.g. with a fake in tests.
+   * Overridden values are created fresh, independent of cached singletons.
+   * @param {Token<T>} token - The class or injection token.
+   * @param {Provider<T>} provider - The replacing provider (e.g. `{useValue: fake}`).
+   * @returns {this} - The same container, for chaining.
+   *
+   * @example
+   * container.override(Mailer, {useValue: fakeMailer});
+   * afterEach(() => container.clearOverrides());
+   */
+  public override<T>(token: Token<T>, provider: Provider<T>): this {
+    this.overrides.set(token, provider);
+    return this;
+  }
+
+  /**
+   * Removes every override.
+   */
+  public clearOverrides(): void {
+    for (const provider of this.overrides.values())
+      this.singletons.delete(provider);
+    this.overrides.clear();
+  }
+
+  /**
+   * Resolves the value of a token and its dependencies.
+   * @param {Token<T>} token - The class or injection token.
+   * @returns {Promise<T>} - The value.
+   * @throws {Error} - If the token has no provider, or a request-scoped value is
+   *   resolved outside a request or from a singleton.
+   */
+  public async resolve<T>(token: Token<T>): Promise<T> {
+    return this.get(token, []);
+  }
+
+  /**
+   * Middleware that opens a request scope for the rest of the request.
+   * Request-scoped values are disposed when the response closes and every
+   * `handler` of the request has settled, so a client aborting mid-request
+   * can't dispose a value (e.g. a transaction) the handler still uses.
+   * @returns {RequestHandler} - Middleware for request scopes.
+   */
+  public requestScope(): RequestHandler {
+    return (req, res, next) => {
+      const scope: RequestScope = {req, instances: new Map()};
+      res.once('close', () => {
+        // The response is already sent, failing disposers can't be reported
+        settled(res)
+          .then(() => this.disposeAll(scope.instances))
+          .catch(() => undefined);
+      });
+      this.storage.run(scope, () => {
+        bindEmitters(req, res);
+        next();
+      });
+    };
+  }
+
+  /**
+   * Disposes every singleton, in reverse creation order (e.g. on shutdown).
+   * @returns {Promise<void>} - Resolves when every disposer has run.
+   */
+  public dispose(): Promise<void> {
+    return this.disposeAll(this.singletons);
+  }
+
+  /** Finds the provider of a token, classes provide themselves by default. */
+  private provider(token: Token): Provider {
+    const provider = this.overrides.get(token) ?? this.providers.get(token);
+    if (provider) return provider;
+    if (typeof token === 'function') {
+      // Cache the implicit provider so singletons are shared
+      const implicit: Provider = {};
+      this.providers.set(token, implicit);
+      return implicit;
+    }
+    throw new Error(`No provider registered for ${nameOf(token)}.`);
+  }
+
+  /** Resolves a token, `path` holds the tokens and scopes being resolved. */
+  private get<T>(
+    token: Token<T>,
+    path: {token: Token; scope: ProviderScope}[],
+  ): Promise<T> {
+    if (path.some(entry => entry.token === token))
+      throw new Error(
+        `Circular dependency: ${[...path.map(e => e.token), token].map(nameOf).join(' -> ')}.`,
+      );
+    const provider = this.provider(token);
+    const cls =
+      provider.useClass ?? (typeof token === 'function' ? token : undefined);
+    const decorated = cls && injectables.get(cls);
+    const scope: ProviderScope =
+      'useValue' in provider
+        ? 'singleton'
+        : (provider.scope ?? decorated?.scope ?? 'transient');
+
+    if (scope === 'request') {
+      const owner = path.find(entry => entry.scope === 'singleton');
+      if (owner)
+        throw new Error(
+          `Singleton ${nameOf(owner.token)} cannot depend on request-scoped ${nameOf(token)}.`,
+        );
+    }
+    const create = () =>
+      this.create(token, provider, decorated, [...path, {token, scope}]);
+    if (scope === 'transient') return create() as Promise<T>;
+
+    const instances =
+      scope === 'singleton' ? this.singletons : this.requestInstances(token);
+    let instance = instances.get(provider);
+    if (!instance) {
+      instance = create();
+      instances.set(provider, instance);
+      // Forget failed creations so the next resolve retries
+      instance.catch(() => instances.delete(provider));
+    }
+    return instance as Promise<T>;
+  }
+
+  /** Gets the values of the current request scope. */
+  private requestInstances(token: Token): Instances {
+    const scope = this.storage.getStore();
+    if (!scope)
+      throw new Error(
+        `Request-scoped ${nameOf(token)} resolved outside a request, register container.requestScope() first.`,
+      );
+    return scope.instances;
+  }
+
+  /** Creates the value of a provider. */
+  private async create(
+    token: Token,
+    provider: Provider,
+    decorated: InjectableOptions | undefined,
+    path: {token: Token; scope: ProviderScope}[],
+  ): Promise<unknown> {
+    if ('useValue' in provider) return provider.useValue;
+    if (provider.useFactory)
+      return provider.useFactory(this, this.storage.getStore()?.req);
+
+    const cls = provider.useClass ?? token;
+    if (typeof cls !== 'function')
+      throw new Error(`No class or factory provided for ${nameOf(token)}.`);
+    const deps = provider.deps ?? decorated?.deps ?? [];
+    const args = await Promise.all(deps.map(dep => this.get(dep, path)));
+    return new cls(...args);
+  }
+
+  /** Disposes values in reverse creation order and empties the scope. */
+  private async disposeAll(instances: Instances): Promise<void> {
+    const entries = [...instances].reverse();
+    const errors: unknown[] = [];
+    instances.clear();
+    for (const [provider, instance] of entries) {
+      if (!provider.dispose) continue;
+      // Values that failed to be created have nothing to dispose
+      const value = await instance.catch(() => undefined);
+      if (value === undefined) continue;
+      try {
+        await provider.dispose(value);
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+    if (errors.length)
+      throw new AggregateError(errors, 'Failed to dispose providers.');
+  }
+}
+
+/** Default container, used when none is created explicitly. */
+export const container = new Container();
@@ -0,0 +1,76 @@
+import {randomUUID} from 'crypto';
+import {performance} from 'perf_hooks';
+import {AsyncLocalStorage} from 'async_hooks';
+import {bindEmitters} from './lifecycle';
+import type {RequestHandler} from 'express';
+import type {RequestContext, RequestIdOptions} from './types';
+
+/** Storage of the current request context. */
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/** Ids accepted from clients: short and free of header-unsafe characters. */
+const SAFE_ID = /^[\w.:@-]{1,128}$/;
+
+/** W3C `traceparent` header, the trace id is the second field. */
+const TRACEPARENT = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/;
+
+/**
+ * Gets the context of the current request.
+ * @returns {RequestContext | undefined} - The context, or undefined outside a request.
+ */
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
+
+/**
+ * Gets the correlation id of the current request.
+ * @returns {string | undefined} - The request id, or undefined outside a request.
+ *
+ * @example
+ * logger.info({requestId: getRequestId()}, 'Charging card');
+ */
+export const getRequestId = (): string | undefined => storage.getStore()?.id;
+
+/**
+ * Middleware that assigns a correlation id to every request.
+ *
+ * - Reuses a valid incoming id header or the trace id of a W3C `traceparent`.
+ * - Generates a UUID otherwise.
+ * - Echoes the id in the response header.
+ * - Exposes the id through AsyncLocalStorage (`getRequestId()`), which is
+ *   added to every `ApiRes.toJson()` and `HttpError.toJson()` body.
+ *
+ * @param {RequestIdOptions} [options] - Options for the request id.
+ * @param {string} [options.header='X-Request-Id'] - Request and response header of the id.
+ * @param {boolean} [options.trustIncoming=true] - Reuse ids sent by the client.
+ * @param {() => string} [options.generate=randomUUID] - Id generator.
+ * @returns {RequestHandler} - Middleware for request ids.
+ *
+ * @example
+ * // Register before every other middleware
+ * app.use(requestId());
+ */
+export const requestId = (options: RequestIdOptions = {}): RequestHandler => {
+  const {
+    header = 'X-Request-Id',
+    trustIncoming = true,
+    generate = randomUUID,
+  } = options;
+
+  /** Reads a trusted id from the request headers. */
+  const incoming = (value?: string, traceparent?: string) => {
+    if (!trustIncoming) return undefined;
+    if (value && SAFE_ID.test(value)) return value;
+    const traceId = traceparent && TRACEPARENT.exec(traceparent)?.[1];
+    return traceId && !/^0+$/.test(traceId) ? traceId : undefined;
+  };
+
+  return (req, res, next) => {
+    const id = incoming(req.get(header), req.get('traceparent')) ?? generate();
+    res.set(header, id);
+
+    storage.run({id, start: performance.now()}, () => {
+      bindEmitters(req, res);
+      next();
+    });
+  };
+};
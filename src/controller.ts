@@ -0,0 +1,267 @@
+import {Router} from 'express';
+import {proxyWrapper} from './handler';
+import {routes, getRoute, getController, findController} from './metadata';
+import type {Method} from './metadata';
+import type {RequestHandler} from 'express';
+import type {Guard, Constructor, Interceptor, RouteMethod} from './types';
+
+/** Throws if a method decorator is applied to a static or private method. */
+const assertRoutable = (context: ClassMethodDecoratorContext): void => {
+  if (context.static || context.private)
+    throw new Error(
+      `Route decorators are not allowed on static or private method "${String(context.name)}".`,
+    );
+};
+
+/**
+ * Joins a controller prefix and a route path into a single route path.
+ * @param {string} prefix - The controller prefix (e.g. `/users`).
+ * @param {string} path - The route path (e.g. `/:id`).
+ * @returns {string} - The joined path (e.g. `/users/:id`).
+ */
+const joinPath = (prefix: string, path: string): string => {
+  const joined = `/${prefix}/${path}`.replace(/\/{2,}/g, '/');
+  return joined.length > 1 ? joined.replace(/\/$/, '') : joined;
+};
+
+/**
+ * Creates a method decorator that registers the method as a route.
+ * @param {RouteMethod} method - The HTTP method of the route.
+ * @returns A decorator factory taking the route path.
+ */
+const createRoute =
+  (method: RouteMethod) =>
+  (path: string = '/') =>
+  (value: Method, context: ClassMethodDecoratorContext): void => {
+    assertRoutable(context);
+    Object.assign(getRoute(value), {method, path});
+  };
+
+/**
+ * Class decorator that sets the path prefix of every route in the controller.
+ *
+ * @param {string} [prefix='/'] - The path prefix.
+ *
+ * @example
+ * \@Controller('/users')
+ * class UserController {
+ *   \@Get('/:id')
+ *   async get(req: Request) {
+ *     return ApiRes.ok(await users.get(req.params.id));
+ *   }
+ * }
+ */
+export const Controller =
+  (prefix: string = '/') =>
+  (value: Constructor<any>, context: ClassDecoratorContext): void => {
+    getController(value).prefix = prefix;
+  };
+
+/** Registers the method as a `GET` route. */
+export const Get = createRoute('get');
+
+/** Registers the method as a `POST` route. */
+export const Post = createRoute('post');
+
+/** Registers the method as a `PUT` route. */
+export const Put = createRoute('put');
+
+/** Registers the method as a `PATCH` route. */
+export const Patch = createRoute('patch');
+
+/** Registers the method as a `DELETE` route. */
+export const Delete = createRoute('delete');
+
+/** Registers the method as a `HEAD` route. */
+export const Head = createRoute('head');
+
+/** Registers the method as an `OPTIONS` route. */
+export const Options = createRoute('options');
+
+/** Registers the method as a route matching every HTTP method. */
+export const All = createRoute('all');
+
+/**
+ * Class or method decorator that adds middleware before the route(s).
+ * Class middleware runs before method middleware.
+ *
+ * @param {...RequestHandler} middlewares - The middleware to run.
+ *
+ * @example
+ * \@Use(authenticate)
+ * \@Controller('/admin')
+ * class AdminController {
+ *   \@Use(onlyAdmin)
+ *   \@Delete('/:id')
+ *   async remove(req: Request) {}
+ * }
+ */
+export const Use =
+  (...middlewares: RequestHandler[]) =>
+  (
+    value: Constructor<any> | Method,
+    context: ClassDecoratorContext | ClassMethodDecoratorContext,
+  ): void => {
+    if (context.kind === 'class') {
+      getController(value as Constructor<any>).middlewares.unshift(
+        ...middlewares,
+      );
+    } else {
+      assertRoutable(context);
+      getRoute(value as Method).middlewares.unshift(...middlewares);
+    }
+  };
+
+/**
+ * Class or method decorator that adds guards before the method(s).
+ * A guard returning false rejects the request with `ForbiddenError`, a guard
+ * may also throw its own error (e.g. `UnAuthorizedError`).
+ * Class guards run before method guards. Applies to `proxyWrapper` and `buildRouter`.
+ *
+ * @param {...Guard} guards - The guards to run.
+ *
+ * @example
+ * const isSignedIn: Guard = req => {
+ *   if (!req.user) throw new UnAuthorizedError('Sign in required');
+ *   return true;
+ * };
+ *
+ * \@UseGuards(isSignedIn)
+ * class AdminController {
+ *   \@UseGuards(req => req.user.role === 'admin')
+ *   async remove(req: Request) {}
+ * }
+ */
+export const UseGuards =
+  (...guards: Guard[]) =>
+  (
+    value: Constructor<any> | Method,
+    context: ClassDecoratorContext | ClassMethodDecoratorContext,
+  ): void => {
+    if (context.kind === 'class') {
+      getController(value as Constructor<any>).guards.unshift(...guards);
+    } else {
+      assertRoutable(context);
+      getRoute(value as Method).guards.unshift(...guards);
+    }
+  };
+
+/**
+ * Class or method decorator that adds interceptors around the method(s).
+ * An interceptor is a function receiving the context and a `call` that runs
+ * the rest of the chain, or an object with `before` and `after` hooks.
+ * Class interceptors wrap method interceptors. Applies to `proxyWrapper` and `buildRouter`.
+ *
+ * @param {...Interceptor} interceptors - The interceptors to run.
+ *
+ * @example
+ * const timing: Interceptor = async ({req, method}, call) => {
+ *   const start = Date.now();
+ *   try {
+ *     return await call();
+ *   } finally {
+ *     logger.info(`${method} ${req.path} ${Date.now() - start}ms`);
+ *   }
+ * };
+ *
+ * \@UseInterceptors(timing)
+ * class UserController {
+ *   \@UseInterceptors({after: result => (result instanceof ApiRes ? ApiRes.ok(hidePasswords(result.result)) : result)})
+ *   async list() {}
+ * }
+ */
+export const UseInterceptors =
+  (...interceptors: Interceptor[]) =>
+  (
+    value: Constructor<any> | Method,
+    context: ClassDecoratorContext | ClassMethodDecoratorContext,
+  ): void => {
+    if (context.kind === 'class') {
+      getController(value as Constructor<any>).interceptors.unshift(
+        ...interceptors,
+      );
+    } else {
+      assertRoutable(context);
+      getRoute(value as Method).interceptors.unshift(...interceptors);
+    }
+  };
+
+/**
+ * Method decorator that sets the default response status of the route.
+ * Results returned as `ApiRes` keep their own status.
+ *
+ * @param {number} status - The HTTP status code.
+ *
+ * @example
+ * \@Post()
+ * \@HttpCode(HttpStatus.CREATED)
+ * async create(req: Request) {
+ *   return users.create(req.body);
+ * }
+ */
+export const HttpCode =
+  (status: number) =>
+  (value: Method, context: ClassMethodDecoratorContext): void => {
+    assertRoutable(context);
+    getRoute(value).status = status;
+  };
+
+/**
+ * Builds an Express Router from a decorated controller class or instance.
+ * Methods are wrapped exactly like `proxyWrapper` does.
+ *
+ * @param {Constructor<T> | T} clsOrInstance - The controller class or instance.
+ * @param {...any} args - Arguments for the class constructor, or a `Container` resolving it per request.
+ * @returns {Router} - Express Router with every decorated method registered.
+ *
+ * @example
+ * app.use('/api', buildRouter(UserController, userService));
+ *
+ * // Resolve the controller and its dependencies per request
+ * app.use('/api', buildRouter(UserController, container));
+ */
+export const buildRouter = <T extends object>(
+  clsOrInstance: Constructor<T> | T,
+  ...args: ConstructorParameters<Constructor<T>> | []
+): Router => {
+  const wrapped: Record<string, any> = proxyWrapper(
+    clsOrInstance as Constructor<T>,
+    ...args,
+  );
+  const router = Router();
+  const names = new Set<string>();
+
+  // Use the metadata of the nearest decorated class in the prototype chain
+  let proto =
+    typeof clsOrInstance === 'function'
+      ? clsOrInstance.prototype
+      : Object.getPrototypeOf(clsOrInstance);
+  const {prefix = '/', middlewares: classMiddlewares = []} =
+    findController(proto) ?? {};
+
+  // Walk the prototype chain so inherited routes are registered too
+  while (proto && proto !== Object.prototype) {
+    for (const name of Object.getOwnPropertyNames(proto)) {
+      if (names.has(name) || name === 'constructor') continue;
+      names.add(name);
+      const {value} = Object.getOwnPropertyDescriptor(proto, name) ?? {};
+      const route = typeof value === 'function' ? routes.get(value) : undefined;
+      if (!route?.method) continue;
+
+      const {method, path = '/', status, middlewares} = route;
+      const setStatus: RequestHandler[] = status
+        ? [(req, res, next) => (res.status(status), next())]
+        : [];
+
+      router[method](
+        joinPath(prefix, path),
+        ...classMiddlewares,
+        ...middlewares,
+        ...setStatus,
+        wrapped[name],
+      );
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+  return router;
+};
@@ -0,0 +1,97 @@
+import type {Application, Request} from 'express';
+import type {ApiRes} from './api-res';
+import type {HttpError} from './errors';
+import type {Envelope, HttpErrorBody, HttpResBody} from './types';
+
+/** Default envelope formatters, the default `toJson()` bodies if unset. */
+let envelope: Envelope = {};
+
+/** App setting holding the envelope of an app, inherited by mounted sub-apps. */
+const ENVELOPE_SETTING = 'exutile envelope';
+
+/**
+ * Registers the response envelope, used by `handler()` for `ApiRes` results,
+ * by `globalErrorHandler` for JSON error bodies and by `SseRes` for error
+ * events. Registering again replaces the previous formatters.
+ *
+ * Without an `app`, the envelope is the default of every app. With an `app`,
+ * it applies to requests of that app and its mounted sub-apps only, so
+ * several apps (or tests) in one process can use different envelopes. Error
+ * bodies use the envelope of the app whose `globalErrorHandler` sends them.
+ *
+ * Problem details (`format: 'problem'`) keep their RFC 9457 shape.
+ *
+ * @param {Envelope} formatters - The formatters of success and error bodies.
+ * @param {Function} [formatters.success] - Reshapes `ApiRes.toJson()`, receives the body and the ApiRes.
+ * @param {Function} [formatters.error] - Reshapes `HttpError.toJson()`, receives the body and the error.
+ * @param {Application} [app] - The Express app the envelope is scoped to.
+ *
+ * @example
+ * registerEnvelope({
+ *   success: ({result, requestId}) => ({success: true, data: result, meta: {requestId}}),
+ *   error: ({message, detail, requestId}, error) => ({
+ *     success: false,
+ *     error: {code: error.code ?? error.name, message, detail},
+ *     meta: {requestId},
+ *   }),
+ * });
+ *
+ * // Only for the v2 API
+ * const v2 = express();
+ * registerEnvelope({success: ({result}) => ({data: result})}, v2);
+ * app.use('/v2', v2);
+ */
+export const registerEnvelope = (
+  formatters: Envelope,
+  app?: Application,
+): void => {
+  if (app) app.set(ENVELOPE_SETTING, {...formatters});
+  else envelope = {...formatters};
+};
+
+/**
+ * Finds the envelope of a request's app, or the default one.
+ * @param {Request} [req] - The Express request object.
+ * @returns {Envelope} - The envelope formatters.
+ */
+const envelopeOf = (req?: Request): Envelope =>
+  (req?.app?.get(ENVELOPE_SETTING) as Envelope | undefined) ?? envelope;
+
+/**
+ * Builds the success body of an ApiRes in the envelope of the request's app.
+ * @param {ApiRes} res - The response.
+ * @param {Request} [req] - The Express request object, the default envelope if omitted.
+ * @param {HttpResBody} [body] - The default body, `res.toJson()` if omitted.
+ * @returns {unknown} - The body to send.
+ */
+export const formatSuccess = (
+  res: ApiRes,
+  req?: Request,
+  body: HttpResBody = res.toJson(),
+): unknown => {
+  const {success} = envelopeOf(req);
+  return success ? success(body, res) : body;
+};
+
+/**
+ * Builds the error body of an HttpError in the envelope of the request's app.
+ * @param {HttpError} error - The error.
+ * @param {Request} [req] - The Express request object, the default envelope if omitted.
+ * @param {HttpErrorBody} [body] - The default body, `error.toJson()` if omitted.
+ * @returns {unknown} - The body to send.
+ *
+ * @example
+ * // Custom error middleware sending the app's envelope
+ * app.use((err, req, res, next) => {
+ *   if (HttpError.isHttpError(err)) res.status(err.status).json(formatError(err, req));
+ *   else next(err);
+ * });
+ */
+export const formatError = (
+  error: HttpError,
+  req?: Request,
+  body: HttpErrorBody = error.toJson(),
+): unknown => {
+  const {error: format} = envelopeOf(req);
+  return format ? format(body, error) : body;
+};
@@ -0,0 +1,100 @@
+import {
+  HttpError,
+  ForbiddenError,
+  BadRequestError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from './errors';
+import type {ErrorMapper, ErrorMatcher} from './types';
+
+/** Registered mappers, later registrations take precedence. */
+const mappers: Array<{matches: (error: unknown) => boolean; map: ErrorMapper}> =
+  [];
+
+/**
+ * Registers a mapping from an error class or predicate to an `HttpError`.
+ * `globalErrorHandler` uses the most recently registered matching mapper,
+ * and keeps the original error as the `cause` of the mapped one.
+ *
+ * @param {ErrorMatcher} matcher - An error class, or a predicate receiving the error.
+ * @param {ErrorMapper} mapper - Converts the matched error into an `HttpError`.
+ *
+ * @example
+ * registerErrorMapper(TokenExpiredError, () => new UnAuthorizedError('Token expired'));
+ *
+ * registerErrorMapper(
+ *   err => (err as any)?.code === '23505', // Postgres unique violation
+ *   err => new ConflictError('Resource already exists', {constraint: err.constraint}),
+ * );
+ */
+export const registerErrorMapper = <E = any>(
+  matcher: ErrorMatcher,
+  mapper: ErrorMapper<E>,
+): void => {
+  const matches =
+    matcher.prototype instanceof Error || matcher === Error
+      ? (error: unknown) => error instanceof matcher
+      : (matcher as (error: unknown) => boolean);
+  mappers.unshift({matches, map: mapper});
+};
+
+/**
+ * Converts an error into an `HttpError` through the registered mappers.
+ *
+ * @param {unknown} error - The error to convert.
+ * @returns {HttpError | undefined} - The mapped error (with `cause` set), or undefined if no mapper matches.
+ */
+export const mapError = (error: unknown): HttpError | undefined => {
+  const mapper = mappers.find(({matches}) => matches(error));
+  if (!mapper) return undefined;
+  const mapped = mapper.map(error);
+  if (mapped.cause === undefined) mapped.causedBy(error);
+  return mapped;
+};
+
+/** Errors raised by `http-errors` (used by body-parser, send, etc.). */
+type ExposedError = {
+  type?: string;
+  status?: number;
+  expose?: boolean;
+  message: string;
+  limit?: number;
+};
+
+/** Checks if a value is an `http-errors` error with a client-safe message. */
+const isExposedError = (error: unknown): error is ExposedError =>
+  typeof error === 'object' &&
+  error !== null &&
+  (error as ExposedError).expose === true &&
+  typeof (error as ExposedError).status === 'number';
+
+/** Body-parser error types mapped to HttpErrors. */
+const bodyParserErrors: Record<string, ErrorMapper<ExposedError>> = {
+  'entity.parse.failed': () => new BadRequestError('Malformed request body'),
+  'entity.too.large': err =>
+    new PayloadTooLargeError('Request body is too large', {limit: err.limit}),
+  'entity.verify.failed': () =>
+    new ForbiddenError('Request body verification failed'),
+  'request.aborted': () => new BadRequestError('Request aborted'),
+  'request.size.invalid': () =>
+    new BadRequestError('Request size did not match content length'),
+  'encoding.unsupported': err => new UnsupportedMediaTypeError(err.message),
+  'charset.unsupported': err => new UnsupportedMediaTypeError(err.message),
+  'parameters.too.many': () =>
+    new PayloadTooLargeError('Too many parameters in request body'),
+};
+
+// Built-in: client errors from http-errors keep their status and message
+registerErrorMapper<ExposedError>(
+  isExposedError,
+  err => new HttpError(err.message, err.status),
+);
+
+// Built-in: body-parser errors (e.g. invalid JSON from `express.json()`)
+registerErrorMapper<ExposedError>(
+  err =>
+    isExposedError(err) &&
+    !!err.type &&
+    Object.hasOwn(bodyParserErrors, err.type),
+  err => bodyParserErrors[err.type!](err),
+);
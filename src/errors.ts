@@ -1,5 +1,28 @@
 import {HttpStatus} from './enums';
-import type {BodyMessage, HttpErrorBody, HttpStatusNumber} from './types';
+import {getRequestId} from './context';
+import type {
+  BodyMessage,
+  HttpErrorClass,
+  HttpErrorBody,
+  HttpStatusNumber,
+  ProblemDetails,
+  ProblemOptions,
+} from './types';
+
+/**
+ * Get the title-cased phrase of an HTTP status code (e.g. `Not Found`).
+ * @param {number} status - The HTTP status code.
+ * @returns {string | undefined} - The status phrase, or undefined if unknown.
+ */
+const getStatusPhrase = (status: number): string | undefined => {
+  // Find the key corresponding to the given status code
+  const statusKey = HttpStatus[`${status as HttpStatusNumber}_NAME`];
+  if (!statusKey) return undefined;
+  return statusKey
+    .toLowerCase()
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, char => char.toUpperCase());
+};
 
 /**
  * Get a human-readable error name from the HTTP status code.
@@ -8,41 +31,84 @@ import type {BodyMessage, HttpErrorBody, HttpStatusNumber} from './types';
  */
 export const getErrorName = (status: number): string => {
   if (status < 400 || status > 511) return 'HttpError';
-  // Find the key corresponding to the given status code
-  const statusKey = HttpStatus[`${status as HttpStatusNumber}_NAME`];
+  const phrase = getStatusPhrase(status);
   // If the status code is not found, return a generic error name
-  if (!statusKey) return 'HttpError';
-  const name = statusKey
-    .toLowerCase()
-    .replace(/_/g, ' ')
-    .replace(/\b\w/g, char => char.toUpperCase())
-    .replace(/\s+/g, '');
+  if (!phrase) return 'HttpError';
+  const name = phrase.replace(/\s+/g, '');
   return name.endsWith('Error') ? name : name.concat('Error');
 };
 
+/**
+ * Format a `Retry-After` header value.
+ * @param {number | Date} value - Delay in seconds, or the date to retry after.
+ * @returns {string} - The header value (seconds or HTTP-date).
+ */
+const formatRetryAfter = (value: number | Date): string =>
+  value instanceof Date ? value.toUTCString() : String(Math.ceil(value));
+
 /**
  * Base class for handling HTTP errors.
  * @extends {Error}
  */
 export class HttpError extends Error {
+  /** Application-specific error code, separate from the HTTP status */
+  public code?: string;
+
+  /** Request id reported by the server, set on errors rebuilt by `createClient` */
+  public requestId?: string;
+
   /**
    * @param {BodyMessage} msg - The error message.
    * @param {number} status - The HTTP status code. default is 500 (Internal Server Error).
    * @param {any} [detail] - Optional detailed error information.
+   * @param {Record<string, string>} [headers] - Response headers sent with the error (e.g. `Retry-After`).
+   * @param {object} [options] - ES2022 error options and the application error code.
+   * @param {unknown} [options.cause] - The original error that caused this one.
+   * @param {string} [options.code] - Application-specific error code (e.g. `USER_NOT_FOUND`).
    */
   constructor(
     readonly msg: BodyMessage,
     readonly status: number = HttpStatus.INTERNAL_SERVER_ERROR,
     readonly detail?: object,
+    readonly headers: Record<string, string> = {},
+    options?: {cause?: unknown; code?: string},
   ) {
-    super();
+    super(undefined, options);
+    this.code = options?.code;
     this.name = getErrorName(status);
     this.message = typeof msg === 'string' ? msg : this.name;
     Error.captureStackTrace(this, this.constructor);
   }
 
+  /**
+   * Set the original error that caused this one (ES2022 `cause`).
+   * @param {unknown} cause - The original error.
+   * @returns {this} - The same error, for chaining.
+   *
+   * @example
+   * throw new ConflictError('Email already registered').causedBy(dbError);
+   */
+  public causedBy(cause: unknown): this {
+    this.cause = cause;
+    return this;
+  }
+
+  /**
+   * Set the application-specific error code, sent as `code` in the body.
+   * @param {string} code - The error code (e.g. `USER_NOT_FOUND`).
+   * @returns {this} - The same error, for chaining.
+   *
+   * @example
+   * throw new NotFoundError('User not found').withCode('USER_NOT_FOUND');
+   */
+  public withCode(code: string): this {
+    this.code = code;
+    return this;
+  }
+
   /**
    * Convert the HttpError instance to a JSON object.
+   * Includes the request id when the `requestId` middleware is used.
    * @returns {HttpErrorBody} - The JSON representation of the error.
    */
   public toJson(): HttpErrorBody {
@@ -52,6 +118,48 @@ export class HttpError extends Error {
       message: this.msg,
     };
     if (this.detail) obj['detail'] = this.detail;
+    if (this.code) obj['code'] = this.code;
+    const requestId = getRequestId();
+    if (requestId) obj['requestId'] = requestId;
+    return obj;
+  }
+
+  /**
+   * Convert the HttpError instance to an RFC 9457 Problem Details object.
+   *
+   * - `type` is `about:blank` unless `typeBase` is given, in which case it is
+   *   `${typeBase}/${slug}` (e.g. `https://errors.example.com/not-found`).
+   * - Plain-object `detail` is spread as extension members, anything else is
+   *   exposed under `errors`.
+   * - The application error `code` is added as an extension member when set.
+   *
+   * @param {ProblemOptions} [options] - Type URI base and request instance.
+   * @returns {ProblemDetails} - The problem details representation of the error.
+   */
+  public toProblem(options: ProblemOptions = {}): ProblemDetails {
+    const {typeBase, instance} = options;
+    const title = getStatusPhrase(this.status) ?? this.name;
+    const slug = title.toLowerCase().replace(/\s+/g, '-');
+
+    let extensions: Record<string, unknown> = {};
+    if (this.detail && Object.getPrototypeOf(this.detail) === Object.prototype)
+      extensions = {...this.detail};
+    else if (this.detail) extensions = {errors: this.detail};
+
+    const obj: ProblemDetails = {
+      ...extensions,
+      type: typeBase
+        ? `${typeBase.replace(/\/+$/, '')}/${slug}`
+        : 'about:blank',
+      title,
+      status: this.status,
+      detail: Array.isArray(this.msg) ? this.msg.join(', ') : this.msg,
+    };
+    if (Array.isArray(this.msg)) obj['messages'] = this.msg;
+    if (this.code) obj['code'] = this.code;
+    if (instance) obj['instance'] = instance;
+    const requestId = getRequestId();
+    if (requestId) obj['requestId'] = requestId;
     return obj;
   }
 
@@ -109,8 +217,22 @@ export class NotFoundError extends HttpError {
  * @extends {HttpError}
  */
 export class UnAuthorizedError extends HttpError {
-  constructor(message: BodyMessage, detail?: object) {
-    super(message, HttpStatus.UNAUTHORIZED, detail);
+  /**
+   * @param {BodyMessage} message - The error message.
+   * @param {object} [detail] - Optional detailed error information.
+   * @param {string} [wwwAuthenticate] - `WWW-Authenticate` challenge (e.g. `Bearer realm="api"`).
+   */
+  constructor(
+    message: BodyMessage,
+    detail?: object,
+    readonly wwwAuthenticate?: string,
+  ) {
+    super(
+      message,
+      HttpStatus.UNAUTHORIZED,
+      detail,
+      wwwAuthenticate ? {'WWW-Authenticate': wwwAuthenticate} : {},
+    );
   }
 }
 
@@ -143,3 +265,413 @@ export class InternalServerError extends HttpError {
     super(message, HttpStatus.INTERNAL_SERVER_ERROR, detail);
   }
 }
+
+/**
+ * Represents a Method Not Allowed HTTP error (405).
+ * Sends the `Allow` header with the supported methods.
+ * @extends {HttpError}
+ */
+export class MethodNotAllowedError extends HttpError {
+  /**
+   * @param {BodyMessage} message - The error message.
+   * @param {object} [detail] - Optional detailed error information.
+   * @param {string[]} [allow=[]] - Methods supported by the resource.
+   */
+  constructor(
+    message: BodyMessage,
+    detail?: object,
+    readonly allow: string[] = [],
+  ) {
+    super(message, HttpStatus.METHOD_NOT_ALLOWED, detail, {
+      Allow: allow.map(method => method.toUpperCase()).join(', '),
+    });
+  }
+}
+
+/**
+ * Represents a Not Acceptable HTTP error (406).
+ * @extends {HttpError}
+ */
+export class NotAcceptableError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.NOT_ACCEPTABLE, detail);
+  }
+}
+
+/**
+ * Represents a Proxy Authentication Required HTTP error (407).
+ * Sends the `Proxy-Authenticate` challenge if provided.
+ * @extends {HttpError}
+ */
+export class ProxyAuthenticationRequiredError extends HttpError {
+  /**
+   * @param {BodyMessage} message - The error message.
+   * @param {object} [detail] - Optional detailed error information.
+   * @param {string} [proxyAuthenticate] - `Proxy-Authenticate` challenge.
+   */
+  constructor(
+    message: BodyMessage,
+    detail?: object,
+    readonly proxyAuthenticate?: string,
+  ) {
+    super(
+      message,
+      HttpStatus.PROXY_AUTHENTICATION_REQUIRED,
+      detail,
+      proxyAuthenticate ? {'Proxy-Authenticate': proxyAuthenticate} : {},
+    );
+  }
+}
+
+/**
+ * Represents a Request Timeout HTTP error (408).
+ * @extends {HttpError}
+ */
+export class RequestTimeoutError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.REQUEST_TIMEOUT, detail);
+  }
+}
+
+/**
+ * Represents a Gone HTTP error (410).
+ * @extends {HttpError}
+ */
+export class GoneError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.GONE, detail);
+  }
+}
+
+/**
+ * Represents a Length Required HTTP error (411).
+ * @extends {HttpError}
+ */
+export class LengthRequiredError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.LENGTH_REQUIRED, detail);
+  }
+}
+
+/**
+ * Represents a Precondition Failed HTTP error (412).
+ * @extends {HttpError}
+ */
+export class PreconditionFailedError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.PRECONDITION_FAILED, detail);
+  }
+}
+
+/**
+ * Represents a Payload Too Large HTTP error (413).
+ * @extends {HttpError}
+ */
+export class PayloadTooLargeError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.PAYLOAD_TOO_LARGE, detail);
+  }
+}
+
+/**
+ * Represents a URI Too Long HTTP error (414).
+ * @extends {HttpError}
+ */
+export class UriTooLongError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.URI_TOO_LONG, detail);
+  }
+}
+
+/**
+ * Represents an Unsupported Media Type HTTP error (415).
+ * @extends {HttpError}
+ */
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.UNSUPPORTED_MEDIA_TYPE, detail);
+  }
+}
+
+/**
+ * Represents a Requested Range Not Satisfiable HTTP error (416).
+ * @extends {HttpError}
+ */
+export class RequestedRangeNotSatisfiableError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE, detail);
+  }
+}
+
+/**
+ * Represents an Expectation Failed HTTP error (417).
+ * @extends {HttpError}
+ */
+export class ExpectationFailedError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.EXPECTATION_FAILED, detail);
+  }
+}
+
+/**
+ * Represents an I'm a Teapot HTTP error (418).
+ * @extends {HttpError}
+ */
+export class IAmATeapotError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.I_AM_A_TEAPOT, detail);
+  }
+}
+
+/**
+ * Represents a Misdirected Request HTTP error (421).
+ * @extends {HttpError}
+ */
+export class MisdirectedError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.MISDIRECTED, detail);
+  }
+}
+
+/**
+ * Represents an Unprocessable Entity HTTP error (422).
+ * @extends {HttpError}
+ */
+export class UnprocessableEntityError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.UNPROCESSABLE_ENTITY, detail);
+  }
+}
+
+/**
+ * Represents a Failed Dependency HTTP error (424).
+ * @extends {HttpError}
+ */
+export class FailedDependencyError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.FAILED_DEPENDENCY, detail);
+  }
+}
+
+/**
+ * Represents a Precondition Required HTTP error (428).
+ * @extends {HttpError}
+ */
+export class PreconditionRequiredError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.PRECONDITION_REQUIRED, detail);
+  }
+}
+
+/**
+ * Represents a Too Many Requests HTTP error (429).
+ * Sends the `Retry-After` header if provided.
+ * @extends {HttpError}
+ */
+export class TooManyRequestsError extends HttpError {
+  /**
+   * @param {BodyMessage} message - The error message.
+   * @param {object} [detail] - Optional detailed error information.
+   * @param {number | Date} [retryAfter] - Delay in seconds, or the date to retry after.
+   */
+  constructor(
+    message: BodyMessage,
+    detail?: object,
+    readonly retryAfter?: number | Date,
+  ) {
+    super(
+      message,
+      HttpStatus.TOO_MANY_REQUESTS,
+      detail,
+      retryAfter !== undefined
+        ? {'Retry-After': formatRetryAfter(retryAfter)}
+        : {},
+    );
+  }
+}
+
+/**
+ * Represents a Bad Gateway HTTP error (502).
+ * @extends {HttpError}
+ */
+export class BadGatewayError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.BAD_GATEWAY, detail);
+  }
+}
+
+/**
+ * Represents a Service Unavailable HTTP error (503).
+ * Sends the `Retry-After` header if provided.
+ * @extends {HttpError}
+ */
+export class ServiceUnavailableError extends HttpError {
+  /**
+   * @param {BodyMessage} message - The error message.
+   * @param {object} [detail] - Optional detailed error information.
+   * @param {number | Date} [retryAfter] - Delay in seconds, or the date to retry after.
+   */
+  constructor(
+    message: BodyMessage,
+    detail?: object,
+    readonly retryAfter?: number | Date,
+  ) {
+    super(
+      message,
+      HttpStatus.SERVICE_UNAVAILABLE,
+      detail,
+      retryAfter !== undefined
+        ? {'Retry-After': formatRetryAfter(retryAfter)}
+        : {},
+    );
+  }
+}
+
+/**
+ * Represents a Gateway Timeout HTTP error (504).
+ * @extends {HttpError}
+ */
+export class GatewayTimeoutError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.GATEWAY_TIMEOUT, detail);
+  }
+}
+
+/**
+ * Represents an HTTP Version Not Supported HTTP error (505).
+ * @extends {HttpError}
+ */
+export class HttpVersionNotSupportedError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.HTTP_VERSION_NOT_SUPPORTED, detail);
+  }
+}
+
+/**
+ * Represents a Variant Also Negotiates HTTP error (506).
+ * @extends {HttpError}
+ */
+export class VariantAlsoNegotiatesError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.VARIANT_ALSO_NEGOTIATES, detail);
+  }
+}
+
+/**
+ * Represents an Insufficient Storage HTTP error (507).
+ * @extends {HttpError}
+ */
+export class InsufficientStorageError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.INSUFFICIENT_STORAGE, detail);
+  }
+}
+
+/**
+ * Represents a Loop Detected HTTP error (508).
+ * @extends {HttpError}
+ */
+export class LoopDetectedError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.LOOP_DETECTED, detail);
+  }
+}
+
+/**
+ * Represents a Bandwidth Limit Exceeded HTTP error (509).
+ * @extends {HttpError}
+ */
+export class BandwidthLimitExceededError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.BANDWIDTH_LIMIT_EXCEEDED, detail);
+  }
+}
+
+/**
+ * Represents a Not Extended HTTP error (510).
+ * @extends {HttpError}
+ */
+export class NotExtendedError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.NOT_EXTENDED, detail);
+  }
+}
+
+/**
+ * Represents a Network Authentication Required HTTP error (511).
+ * @extends {HttpError}
+ */
+export class NetworkAuthenticationRequiredError extends HttpError {
+  constructor(message: BodyMessage, detail?: object) {
+    super(message, HttpStatus.NETWORK_AUTHENTICATION_REQUIRED, detail);
+  }
+}
+
+/** Error classes keyed by their HTTP status code. */
+const errorClasses = new Map<number, HttpErrorClass>([
+  [HttpStatus.BAD_REQUEST, BadRequestError],
+  [HttpStatus.CONFLICT, ConflictError],
+  [HttpStatus.FORBIDDEN, ForbiddenError],
+  [HttpStatus.NOT_FOUND, NotFoundError],
+  [HttpStatus.UNAUTHORIZED, UnAuthorizedError],
+  [HttpStatus.NOT_IMPLEMENTED, NotImplementedError],
+  [HttpStatus.PAYMENT_REQUIRED, PaymentRequiredError],
+  [HttpStatus.INTERNAL_SERVER_ERROR, InternalServerError],
+  [HttpStatus.METHOD_NOT_ALLOWED, MethodNotAllowedError],
+  [HttpStatus.NOT_ACCEPTABLE, NotAcceptableError],
+  [HttpStatus.PROXY_AUTHENTICATION_REQUIRED, ProxyAuthenticationRequiredError],
+  [HttpStatus.REQUEST_TIMEOUT, RequestTimeoutError],
+  [HttpStatus.GONE, GoneError],
+  [HttpStatus.LENGTH_REQUIRED, LengthRequiredError],
+  [HttpStatus.PRECONDITION_FAILED, PreconditionFailedError],
+  [HttpStatus.PAYLOAD_TOO_LARGE, PayloadTooLargeError],
+  [HttpStatus.URI_TOO_LONG, UriTooLongError],
+  [HttpStatus.UNSUPPORTED_MEDIA_TYPE, UnsupportedMediaTypeError],
+  [
+    HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE,
+    RequestedRangeNotSatisfiableError,
+  ],
+  [HttpStatus.EXPECTATION_FAILED, ExpectationFailedError],
+  [HttpStatus.I_AM_A_TEAPOT, IAmATeapotError],
+  [HttpStatus.MISDIRECTED, MisdirectedError],
+  [HttpStatus.UNPROCESSABLE_ENTITY, UnprocessableEntityError],
+  [HttpStatus.FAILED_DEPENDENCY, FailedDependencyError],
+  [HttpStatus.PRECONDITION_REQUIRED, PreconditionRequiredError],
+  [HttpStatus.TOO_MANY_REQUESTS, TooManyRequestsError],
+  [HttpStatus.BAD_GATEWAY, BadGatewayError],
+  [HttpStatus.SERVICE_UNAVAILABLE, ServiceUnavailableError],
+  [HttpStatus.GATEWAY_TIMEOUT, GatewayTimeoutError],
+  [HttpStatus.HTTP_VERSION_NOT_SUPPORTED, HttpVersionNotSupportedError],
+  [HttpStatus.VARIANT_ALSO_NEGOTIATES, VariantAlsoNegotiatesError],
+  [HttpStatus.INSUFFICIENT_STORAGE, InsufficientStorageError],
+  [HttpStatus.LOOP_DETECTED, LoopDetectedError],
+  [HttpStatus.BANDWIDTH_LIMIT_EXCEEDED, BandwidthLimitExceededError],
+  [HttpStatus.NOT_EXTENDED, NotExtendedError],
+  [
+    HttpStatus.NETWORK_AUTHENTICATION_REQUIRED,
+    NetworkAuthenticationRequiredError,
+  ],
+]);
+
+/**
+ * Create the `HttpError` subclass matching a status code (e.g. `NotFoundError` for 404).
+ * Falls back to a plain `HttpError` for statuses without a dedicated class.
+ *
+ * @param {number} status - The HTTP status code.
+ * @param {BodyMessage} message - The error message.
+ * @param {object} [detail] - Optional detailed error information.
+ * @returns {HttpError} - The error instance.
+ *
+ * @example
+ * const error = createHttpError(404, 'User not found'); // NotFoundError
+ */
+export const createHttpError = (
+  status: number,
+  message: BodyMessage,
+  detail?: object,
+): HttpError => {
+  const cls = errorClasses.get(status);
+  return cls
+    ? new cls(message, detail)
+    : new HttpError(message, status, detail);
+};
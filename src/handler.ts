@@ -1,22 +1,143 @@
+import {Readable} from 'stream';
+import {HttpStatus} from './enums';
 import {ApiRes} from './api-res';
-import type {Response} from 'express';
+import {
+  ForbiddenError,
+  GatewayTimeoutError,
+  InternalServerError,
+  ServiceUnavailableError,
+} from './errors';
+import {selectSerializer, sendNegotiated} from './serializers';
+import {formatSuccess} from './envelope';
+import {Container} from './container';
+import {
+  ConditionalRes,
+  checkPreconditions,
+  etagOf,
+  formatETag,
+} from './conditional';
+import {BaseRes, FileRes, SseRes, StreamRes} from './results';
+import {routes, findController, hasRoutes} from './metadata';
+import {track} from './lifecycle';
+import type {NextFunction, Request, Response} from 'express';
 import type {
+  SseEvent,
   ReqHandler,
   Constructor,
+  HandlerOptions,
+  AbortableReqHandler,
+  Interceptor,
+  InterceptorContext,
   ProxyWrapper,
   WrappedMethods,
 } from './types';
 
+/**
+ * Checks if a value is an async generator (e.g. from `async function*`).
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} - True if the value is an async generator.
+ */
+const isAsyncGenerator = (
+  value: unknown,
+): value is AsyncGenerator<SseEvent | string> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Symbol.asyncIterator in value &&
+  typeof (value as AsyncGenerator).next === 'function' &&
+  typeof (value as AsyncGenerator).throw === 'function';
+
+/**
+ * Checks if a result streams its body, and so can't be sent to a closed connection.
+ * @param {unknown} value - The handler result.
+ * @returns {boolean} - True for streams, files, SSE and async generators.
+ */
+const isStreaming = (value: unknown): boolean =>
+  value instanceof Readable ||
+  value instanceof StreamRes ||
+  value instanceof FileRes ||
+  value instanceof SseRes ||
+  isAsyncGenerator(value);
+
+/**
+ * Sends an ApiRes with its validators, or 304 when the client's copy is current.
+ * Successful `GET`/`HEAD` responses get a weak ETag of the body by default.
+ *
+ * @param {ApiRes} result - The response to send.
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+const sendApiRes = (result: ApiRes, req: Request, res: Response): void => {
+  const {status, message, etag, lastModified} = result;
+  const safe = req.method === 'GET' || req.method === 'HEAD';
+  const ok = status >= 200 && status < 300;
+  const body = formatSuccess(result, req);
+  // A 406 must not carry the validators of the success response
+  selectSerializer(req, body);
+
+  // Hash the body without the request id, which changes on every request
+  let tag: string | undefined;
+  if (etag?.value !== undefined) tag = formatETag(etag.value, etag.weak);
+  else if (etag || (safe && ok))
+    tag = etagOf({status, message, result: result.result}, etag?.weak ?? true);
+  if (tag) res.set('ETag', tag);
+  if (lastModified) res.set('Last-Modified', lastModified.toUTCString());
+
+  res.status(status).vary('Accept');
+  if (safe && ok && checkPreconditions(req, {etag: tag, lastModified})) {
+    res.status(HttpStatus.NOT_MODIFIED).end();
+    return;
+  }
+  // Send status and body in the format negotiated from `Accept`
+  sendNegotiated(req, res, status, body);
+};
+
 /**
  * Processes the result of a route handler and sends the appropriate response.
+ * A result returned after the handler already wrote the response is passed to
+ * `next` as an `InternalServerError` naming the route, instead of being sent.
  *
- * @param {unknown} result - The result of the handler, either an ApiRes instance or any other value.
+ * @param {unknown} result - The result of the handler, an ApiRes, a ConditionalRes, a BaseRes, a Readable, an async generator or any other value.
+ * @param {Request} req - The Express request object.
  * @param {Response} res - The Express response object.
+ * @param {NextFunction} next - The next middleware function.
+ * @param {(error: unknown) => void} [write] - Logs errors of event streams without their own `write`.
  */
-const handleResult = (result: unknown, res: Response): void => {
-  if (result instanceof ApiRes) {
-    // Send status and JSON if result is ApiRes
-    res.status(result.status).json(result.toJson());
+const handleResult = (
+  result: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  write?: (error: unknown) => void,
+): void => {
+  if (res.headersSent && result && result !== res) {
+    // The handler already responded (e.g. `res.redirect`) and returned a value
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : req.path;
+    next(
+      new InternalServerError('Response already sent', {
+        route: `${req.method} ${route}`,
+        result: result.constructor?.name ?? typeof result,
+      }),
+    );
+  } else if (result instanceof ApiRes) {
+    sendApiRes(result, req, res);
+  } else if (result instanceof ConditionalRes) {
+    // Evaluate preconditions, then handle the action's result
+    const action = result.resolve(req);
+    track(res, action);
+    action
+      .then(value => handleResult(value, req, res, next, write))
+      .catch(next);
+  } else if (result instanceof SseRes && write && !result.options.write) {
+    new SseRes(result.source, {...result.options, write}).send(req, res);
+  } else if (result instanceof BaseRes) {
+    // Let stream, file, redirect and no-content results write themselves
+    result.send(req, res, next);
+  } else if (result instanceof Readable) {
+    // Stream a bare Readable with default options
+    new StreamRes(result).send(req, res, next);
+  } else if (isAsyncGenerator(result)) {
+    // Send events of a bare async generator as Server-Sent Events
+    new SseRes(result, {write}).send(req, res);
   } else if (result && result !== res) {
     // Send non-ApiRes result directly
     res.send(result);
@@ -26,44 +147,258 @@ const handleResult = (result: unknown, res: Response): void => {
 /**
  * Wraps an async route handler to manage errors and response handling.
  *
- * @param {ReqHandler} func - The route handler, which can return a value or a Promise.
+ * - Passes an `AbortSignal` as the fourth argument, aborted when the client
+ *   disconnects or the `timeout` passes. Forward it to `fetch`, database
+ *   drivers and other cancellable calls.
+ * - When the `timeout` passes, rejects with `GatewayTimeoutError` (504), or
+ *   `ServiceUnavailableError` (503) if `timeoutStatus` is 503. If the response
+ *   has already started, it is destroyed instead so the client doesn't hang,
+ *   and the error is still passed on to be logged.
+ * - After a timeout, a late result, rejection or `next()` call is ignored
+ *   instead of reaching the already-sent response or later middleware.
+ * - After a client disconnect, a result or rejection still goes through the
+ *   response (Node discards the write), so error logging and response hooks
+ *   like `idempotency` see the outcome. Streamed results are released instead.
+ * - Returns nothing to Express, so Express 5's handling of rejected promises
+ *   never calls `next` a second time.
+ * - Errors of a returned event stream (an async generator, or an `SseRes`
+ *   without its own `write`) can't reach the error middleware once the stream
+ *   has started, so they are passed to `write`.
+ *
+ * @param {AbortableReqHandler} func - The route handler, which can return a value or a Promise.
+ * @param {HandlerOptions} [options] - Timeout options.
+ * @param {number} [options.timeout] - Maximum handler duration in milliseconds. Default is no timeout.
+ * @param {503|504} [options.timeoutStatus=504] - Status of the timeout error.
+ * @param {(error: unknown) => void} [options.write] - Logs errors of returned event streams.
  * @returns {ReqHandler} - A wrapped handler with error and result handling.
  *
  * @example
  * app.get('/example', handler(async (req, res) => await fetchData()));
+ *
+ * // Cancel the downstream call after 5 seconds or on disconnect
+ * app.get(
+ *   '/report',
+ *   handler((req, res, next, signal) => fetch(REPORT_URL, {signal}), {timeout: 5000}),
+ * );
+ *
+ * // Log errors thrown by an event stream
+ * app.get(
+ *   '/events',
+ *   handler(async function* () { yield* feed(); }, {write: console.error}),
+ * );
  */
 export const handler =
-  (func: ReqHandler<unknown>): ReqHandler<void> =>
+  (
+    func: AbortableReqHandler<unknown>,
+    options: HandlerOptions = {},
+  ): ReqHandler<void> =>
   (req, res, next) => {
+    const {
+      timeout,
+      timeoutStatus = HttpStatus.GATEWAY_TIMEOUT,
+      write,
+    } = options;
+    const controller = new AbortController();
+    const {signal} = controller;
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+
+    // Abort when the connection closes before the response is sent
+    const onClose = () => {
+      if (!res.writableEnded)
+        controller.abort(new Error('Client disconnected'));
+    };
+    res.once('close', onClose);
+
+    if (timeout !== undefined) {
+      timer = setTimeout(() => {
+        const error =
+          timeoutStatus === HttpStatus.SERVICE_UNAVAILABLE
+            ? new ServiceUnavailableError('Request timed out', {timeout})
+            : new GatewayTimeoutError('Request timed out', {timeout});
+        timedOut = true;
+        controller.abort(error);
+        // A partly sent body can't become an error response, cut it off
+        if (res.headersSent) res.destroy();
+        next(error);
+      }, timeout);
+    }
+
+    const settle = () => {
+      clearTimeout(timer);
+      res.off('close', onClose);
+    };
+    const onResult = (value: unknown) => {
+      settle();
+      if (timedOut) return;
+      if (signal.aborted && isStreaming(value)) {
+        // Nobody reads the stream of a closed connection
+        if (value instanceof Readable) value.destroy();
+        else if (value instanceof StreamRes && value.source instanceof Readable)
+          value.source.destroy();
+        else if (isAsyncGenerator(value))
+          value.return(undefined).catch(() => undefined);
+        return;
+      }
+      handleResult(value, req, res, next, write);
+    };
+    const onError = (error: unknown) => {
+      settle();
+      if (!timedOut) next(error);
+    };
+
+    // Once the timeout has answered, the request must not reach later routes
+    const guardedNext: NextFunction = (error?: unknown) => {
+      if (!timedOut) next(error);
+    };
+
     try {
-      const result = func(req, res, next);
+      const result = func(req, res, guardedNext, signal);
       if (result instanceof Promise) {
         // Handle async results
-        result.then(value => handleResult(value, res)).catch(next);
+        track(res, result);
+        result.then(onResult).catch(onError);
       } else {
         // Handle sync results
-        handleResult(result, res);
+        onResult(result);
       }
     } catch (error) {
-      next(error);
+      onError(error);
     }
   };
 
+/**
+ * Checks if a member of a class is wrapped as a request handler.
+ * Symbols, `constructor`, `_`-prefixed helpers and, in classes declaring
+ * route methods, methods without a route decorator are left as they are.
+ *
+ * @param {object} proto - The prototype of the class.
+ * @param {string|symbol} prop - The member name.
+ * @param {unknown} value - The member value.
+ * @returns {boolean} - True if the member is wrapped.
+ */
+const isWrapped = (
+  proto: object,
+  prop: string | symbol,
+  value: unknown,
+): value is (...args: any[]) => any =>
+  typeof value === 'function' &&
+  typeof prop === 'string' &&
+  prop !== 'constructor' &&
+  !prop.startsWith('_') &&
+  (!hasRoutes(proto) || !!routes.get(value as any)?.method);
+
+/**
+ * Runs one interceptor around the rest of the chain.
+ * @param {Interceptor} interceptor - The interceptor.
+ * @param {InterceptorContext} context - The call context.
+ * @param {() => Promise<unknown>} call - Runs the rest of the chain.
+ * @returns {Promise<unknown>} - The (transformed) result.
+ */
+const intercept = async (
+  interceptor: Interceptor,
+  context: InterceptorContext,
+  call: () => Promise<unknown>,
+): Promise<unknown> => {
+  if (typeof interceptor === 'function') return interceptor(context, call);
+  await interceptor.before?.(context);
+  const result = await call();
+  const after = await interceptor.after?.(result, context);
+  return after === undefined ? result : after;
+};
+
+/**
+ * Wraps a controller method with `handler`, running the guards and
+ * interceptors of its class and of the method (class ones first).
+ *
+ * @param {object} proto - The prototype of the class.
+ * @param {string} prop - The method name.
+ * @param {Function} method - The method, holding the decorator metadata.
+ * @param {() => object | Promise<object>} getInstance - Gets the instance to call the method on.
+ * @returns {ReqHandler<void>} - The request handler.
+ */
+const wrapMethod = (
+  proto: object,
+  prop: string,
+  method: (...args: any[]) => any,
+  getInstance: () => object | Promise<object>,
+): ReqHandler<void> => {
+  const controller = findController(proto);
+  const route = routes.get(method);
+  const guards = [...(controller?.guards ?? []), ...(route?.guards ?? [])];
+  const interceptors = [
+    ...(controller?.interceptors ?? []),
+    ...(route?.interceptors ?? []),
+  ];
+
+  return handler(async (req, res, next, signal) => {
+    for (const guard of guards)
+      if (!(await guard(req, res))) throw new ForbiddenError('Forbidden');
+
+    const instance: any = await getInstance();
+    const context: InterceptorContext = {
+      req,
+      res,
+      controller: instance,
+      method: prop,
+    };
+    // The first interceptor is the outermost
+    const call = interceptors.reduceRight<() => Promise<unknown>>(
+      (inner, interceptor) => () => intercept(interceptor, context, inner),
+      async () => instance[prop](req, res, next, signal),
+    );
+    return call();
+  });
+};
+
+/**
+ * Wraps the methods of a class whose instances are resolved from a container
+ * on every call, so request-scoped dependencies are per request.
+ *
+ * @param {Constructor<T>} cls - The class.
+ * @param {Container} container - The container resolving the instances.
+ * @returns {WrappedMethods<T>} - The wrapped methods.
+ */
+const containerWrapper = <T extends object>(
+  cls: Constructor<T>,
+  container: Container,
+): WrappedMethods<T> =>
+  new Proxy(cls.prototype, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (!isWrapped(target, prop, value)) return value;
+      return wrapMethod(target, prop as string, value, () =>
+        container.resolve(cls),
+      );
+    },
+    set() {
+      throw new Error('Overriding methods and properties is not allowed.');
+    },
+  }) as WrappedMethods<T>;
+
 // Overload signatures
 export const proxyWrapper: ProxyWrapper = <T extends object>(
   clsOrInstance: Constructor<T> | T,
   ...args: ConstructorParameters<Constructor<T>> | []
 ): WrappedMethods<T> => {
+  // Resolve an instance per call when a container is given
+  if (typeof clsOrInstance === 'function' && args[0] instanceof Container)
+    return containerWrapper(clsOrInstance, args[0]);
+
   // Create an instance if clsOrInstance is a constructor
   const instance =
     typeof clsOrInstance === 'function'
       ? new clsOrInstance(...args)
       : clsOrInstance;
+  const proto = Object.getPrototypeOf(instance);
 
   return new Proxy(instance, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
-      return typeof value === 'function' ? handler(value.bind(target)) : value;
+      if (isWrapped(proto, prop, value))
+        return wrapMethod(proto, prop as string, value, () => target);
+      // Helpers keep working on the instance, not the proxy
+      return typeof value === 'function' ? value.bind(target) : value;
     },
     set() {
       throw new Error('Overriding methods and properties is not allowed.');
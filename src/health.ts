@@ -0,0 +1,307 @@
+import {Router} from 'express';
+import {ApiRes} from './api-res';
+import {HttpStatus} from './enums';
+import {handler} from './handler';
+import {performance} from 'perf_hooks';
+import type {Server} from 'http';
+import type {
+  HealthCheck,
+  HealthReport,
+  ShutdownOptions,
+  HealthCheckResult,
+  HealthCheckOptions,
+  HealthRouterOptions,
+} from './types';
+
+/** Registered health checks, by name. */
+const checks = new Map<
+  string,
+  {check: HealthCheck; options: HealthCheckOptions}
+>();
+
+/** Registered shutdown hooks, by name in registration order. */
+const hooks = new Map<string, () => unknown>();
+
+/** Set once shutdown starts, so readiness fails. */
+let shuttingDown = false;
+
+/**
+ * Registers a health check, replacing any check with the same name.
+ * A check fails when it throws, rejects, returns false or times out.
+ *
+ * @param {string} name - Name of the check in the report.
+ * @param {HealthCheck} check - The check.
+ * @param {HealthCheckOptions} [options] - Timeout and criticality.
+ * @param {number} [options.timeout] - Milliseconds before the check fails, default the router's timeout.
+ * @param {boolean} [options.critical=true] - A failure makes the service unavailable (503).
+ *
+ * @example
+ * registerHealthCheck('database', () => db.query('SELECT 1'));
+ * registerHealthCheck('cache', () => redis.ping(), {timeout: 500, critical: false});
+ */
+export const registerHealthCheck = (
+  name: string,
+  check: HealthCheck,
+  options: HealthCheckOptions = {},
+): void => {
+  checks.set(name, {check, options});
+};
+
+/**
+ * Registers a hook run by `gracefulShutdown` after in-flight requests are
+ * drained. Hooks run in reverse registration order, replacing any hook with
+ * the same name.
+ *
+ * @param {string} name - Name of the hook in error messages.
+ * @param {() => unknown} hook - Releases a resource, may return a promise.
+ *
+ * @example
+ * registerShutdownHook('database', () => db.end());
+ * registerShutdownHook('container', () => container.dispose());
+ */
+export const registerShutdownHook = (
+  name: string,
+  hook: () => unknown,
+): void => {
+  hooks.set(name, hook);
+};
+
+/**
+ * Checks if graceful shutdown has started.
+ * @returns {boolean} - True once shutdown has started.
+ */
+export const isShuttingDown = (): boolean => shuttingDown;
+
+/**
+ * Runs one check with a timeout.
+ * @param {HealthCheck} check - The check.
+ * @param {number} timeout - Milliseconds before the check fails.
+ * @returns {Promise<string | undefined>} - The failure reason, or undefined if the check passed.
+ */
+const runCheck = async (
+  check: HealthCheck,
+  timeout: number,
+): Promise<string | undefined> => {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Timed out after ${timeout}ms`)),
+      timeout,
+    );
+  });
+  try {
+    const result = await Promise.race([Promise.resolve().then(check), expired]);
+    return result === false ? 'Check returned false' : undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Runs every registered health check concurrently.
+ *
+ * @param {Omit<HealthRouterOptions, 'livePath' | 'readyPath'>} [options] - Default timeout and error reporting.
+ * @param {number} [options.timeout=5000] - Default check timeout in milliseconds.
+ * @param {boolean} [options.isDev=false] - Include failure reasons in the report.
+ * @returns {Promise<HealthReport>} - `down` if a critical check fails, `degraded` if only others fail.
+ */
+export const checkHealth = async (
+  options: Omit<HealthRouterOptions, 'livePath' | 'readyPath'> = {},
+): Promise<HealthReport> => {
+  const {timeout = 5000, isDev = false} = options;
+  const results = await Promise.all(
+    [...checks].map(async ([name, {check, options}]) => {
+      const {critical = true} = options;
+      const start = performance.now();
+      const error = await runCheck(check, options.timeout ?? timeout);
+      const result: HealthCheckResult = {
+        status: error === undefined ? 'up' : 'down',
+        critical,
+        latency: Math.round(performance.now() - start),
+      };
+      if (error !== undefined && isDev) result.error = error;
+      return [name, result] as const;
+    }),
+  );
+
+  const failed = results.filter(([, result]) => result.status === 'down');
+  return {
+    status: failed.some(([, result]) => result.critical)
+      ? 'down'
+      : failed.length
+        ? 'degraded'
+        : 'up',
+    checks: Object.fromEntries(results),
+  };
+};
+
+/**
+ * Creates liveness and readiness endpoints for orchestrators (e.g. Kubernetes probes).
+ *
+ * - Liveness answers 200 while the process can serve requests, without running checks.
+ * - Readiness runs the registered checks and answers 200 (`up` or `degraded`), or
+ *   503 Service Unavailable when a critical check fails or shutdown has started.
+ *
+ * Bodies are `ApiRes`-shaped with a `HealthReport` result and are never cached.
+ *
+ * @param {HealthRouterOptions} [options] - Paths, default check timeout and error reporting.
+ * @param {string} [options.livePath='/health/live'] - Liveness path.
+ * @param {string} [options.readyPath='/health/ready'] - Readiness path.
+ * @param {number} [options.timeout=5000] - Default check timeout in milliseconds.
+ * @param {boolean} [options.isDev=false] - Include failure reasons in the report.
+ * @returns {Router} - The Express router serving the endpoints.
+ *
+ * @example
+ * registerHealthCheck('database', () => db.query('SELECT 1'));
+ * app.use(healthRouter({isDev: process.env.NODE_ENV === 'development'}));
+ */
+export const healthRouter = (options: HealthRouterOptions = {}): Router => {
+  const {
+    livePath = '/health/live',
+    readyPath = '/health/ready',
+    ...rest
+  } = options;
+  const router = Router();
+
+  router.get(
+    livePath,
+    handler((_req, res) => {
+      res.set('Cache-Control', 'no-store');
+      const report: HealthReport = {status: 'up', checks: {}};
+      return ApiRes.ok(report, 'Service is alive');
+    }),
+  );
+
+  router.get(
+    readyPath,
+    handler(async (_req, res) => {
+      res.set('Cache-Control', 'no-store');
+      if (shuttingDown) {
+        const report: HealthReport = {status: 'down', checks: {}};
+        return new ApiRes(
+          report,
+          HttpStatus.SERVICE_UNAVAILABLE,
+          'Service is shutting down',
+        );
+      }
+      const report = await checkHealth(rest);
+      return report.status === 'down'
+        ? new ApiRes(
+            report,
+            HttpStatus.SERVICE_UNAVAILABLE,
+            'Service is unavailable',
+          )
+        : ApiRes.ok(report, 'Service is healthy');
+    }),
+  );
+  return router;
+};
+
+/**
+ * Stops accepting connections and waits for in-flight requests.
+ * @param {Server} server - The HTTP server.
+ * @param {number} timeout - Milliseconds before remaining connections are closed.
+ * @returns {Promise<boolean>} - True if every request finished in time.
+ */
+const drain = (server: Server, timeout: number): Promise<boolean> =>
+  new Promise(resolve => {
+    const timer = setTimeout(() => {
+      server.closeAllConnections();
+      resolve(false);
+    }, timeout);
+    server.close(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+    // Keep-alive connections without a request in flight would hold `close`
+    server.closeIdleConnections();
+  });
+
+/**
+ * Shuts an HTTP server down gracefully on SIGTERM/SIGINT.
+ *
+ * 1. Fails readiness (`healthRouter`) and waits `delay`, so load balancers stop routing.
+ * 2. Stops accepting connections and drains in-flight requests, closing the
+ *    remaining connections after `timeout`.
+ * 3. Runs the shutdown hooks (`registerShutdownHook`) in reverse registration order.
+ * 4. Exits the process, with code 1 if draining timed out or a hook failed.
+ *
+ * A second signal during shutdown terminates the process immediately.
+ *
+ * @param {Server} server - The HTTP server.
+ * @param {ShutdownOptions} [options] - Signals, delays and logging.
+ * @param {NodeJS.Signals[]} [options.signals=['SIGTERM', 'SIGINT']] - Signals starting the shutdown.
+ * @param {number} [options.delay=0] - Milliseconds between failing readiness and closing the server.
+ * @param {number} [options.timeout=10000] - Milliseconds to drain in-flight requests.
+ * @param {boolean} [options.exit=true] - Exit the process after a signal-triggered shutdown.
+ * @param {(error: unknown) => void} [options.write] - Logs shutdown failures.
+ * @returns {() => Promise<void>} - Starts the shutdown manually (e.g. in tests), rejects with
+ *   an `AggregateError` if draining timed out or a hook failed. Repeated calls share one shutdown.
+ *
+ * @example
+ * const server = app.listen(3000);
+ * registerShutdownHook('database', () => db.end());
+ * gracefulShutdown(server, {delay: 5000, write: error => console.error(error)});
+ */
+export const gracefulShutdown = (
+  server: Server,
+  options: ShutdownOptions = {},
+): (() => Promise<void>) => {
+  const {
+    signals = ['SIGTERM', 'SIGINT'],
+    delay = 0,
+    timeout = 10_000,
+    exit = true,
+    write,
+  } = options;
+  let done: Promise<void> | undefined;
+
+  server.on('request', (_req, res) => {
+    // Ask keep-alive clients to reconnect elsewhere
+    if (shuttingDown) res.setHeader('Connection', 'close');
+    // Connections going idle after `close` would otherwise wait for their keep-alive timeout
+    res.once('finish', () => {
+      if (shuttingDown) setImmediate(() => server.closeIdleConnections());
+    });
+  });
+
+  const shutdown = () =>
+    (done ??= (async () => {
+      shuttingDown = true;
+      if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay));
+
+      const errors: unknown[] = [];
+      if (!(await drain(server, timeout)))
+        errors.push(
+          new Error(`In-flight requests did not finish within ${timeout}ms.`),
+        );
+
+      for (const [name, hook] of [...hooks].reverse()) {
+        try {
+          await hook();
+        } catch (error) {
+          errors.push(
+            new Error(`Shutdown hook ${name} failed.`, {cause: error}),
+          );
+        }
+      }
+      if (errors.length)
+        throw new AggregateError(errors, 'Failed to shut down cleanly.');
+    })());
+
+  const onSignal = () => {
+    // Without listeners, a second signal terminates the process
+    for (const signal of signals) process.off(signal, onSignal);
+    shutdown().then(
+      () => exit && process.exit(0),
+      error => {
+        write?.(error);
+        if (exit) process.exit(1);
+      },
+    );
+  };
+  for (const signal of signals) process.on(signal, onSignal);
+  return shutdown;
+};
@@ -0,0 +1,203 @@
+import {createHash} from 'crypto';
+import {handler} from './handler';
+import {MemoryStore} from './store';
+import {
+  ConflictError,
+  BadRequestError,
+  UnprocessableEntityError,
+} from './errors';
+import type {Request, Response, RequestHandler} from 'express';
+import type {IdempotencyEntry, IdempotencyOptions} from './types';
+
+/**
+ * Hashes the method, URL and parsed body of a request.
+ * @param {Request} req - The Express request object.
+ * @returns {string} - The hex SHA-256 fingerprint.
+ */
+const defaultFingerprint = (req: Request): string =>
+  createHash('sha256')
+    .update(`${req.method} ${req.originalUrl}\n`)
+    .update(JSON.stringify(req.body ?? null))
+    .digest('hex');
+
+/**
+ * Picks the given headers of a response.
+ * @param {Response} res - The Express response object.
+ * @param {string[]} names - The header names.
+ * @returns {Record<string, string>} - The headers that are set.
+ */
+const pickHeaders = (
+  res: Response,
+  names: string[],
+): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const name of names) {
+    const value = res.get(name);
+    if (value !== undefined) headers[name] = value;
+  }
+  return headers;
+};
+
+/**
+ * Middleware that makes retried requests safe with the `Idempotency-Key` header.
+ *
+ * - Stores the first successful (2xx) response of a key (status, body,
+ *   `Content-Type` and selected headers) and replays it for repeats, with
+ *   `Idempotent-Replayed: true`. Any body is stored, JSON, CSV or XML alike.
+ * - Rejects a repeat with `ConflictError` (409) while the first request is in flight.
+ * - Rejects a key reused with a different request (method, URL or body) with
+ *   `UnprocessableEntityError` (422).
+ * - Forgets the key when the first request fails, so the client can retry it.
+ * - Settles the key when the response is produced, not when the connection
+ *   closes: a client disconnecting mid-request can't free the key while the
+ *   handler is still running. If no response is produced the key stays locked
+ *   until `lockTtl`.
+ * - Doesn't store responses that can't be replayed, bodies over `maxBodySize`
+ *   and event streams (`text/event-stream`), and releases their key at once.
+ *
+ * Register after the body parser. The default store is an in-memory LRU
+ * (`MemoryStore`). Shared stores should implement `add` (set if missing) so
+ * concurrent duplicates on other instances are detected.
+ *
+ * @param {IdempotencyOptions} [options] - Options for idempotency keys.
+ * @param {string} [options.header='Idempotency-Key'] - Request header of the key.
+ * @param {string[]} [options.methods=['POST', 'PATCH']] - Methods the key is honoured for.
+ * @param {boolean} [options.required=false] - Reject requests without a key with `BadRequestError`.
+ * @param {Store} [options.store] - Store of the responses. Default is `new MemoryStore()`.
+ * @param {string} [options.prefix='idem:'] - Prefix of store keys.
+ * @param {number} [options.ttl=86400000] - Lifetime of stored responses in milliseconds.
+ * @param {number} [options.lockTtl=60000] - Lifetime of in-flight entries in milliseconds.
+ * @param {string[]} [options.headers=['Location']] - Response headers stored and replayed.
+ * @param {number} [options.maxBodySize=1048576] - Largest stored response body in bytes.
+ * @param {(req: Request) => string} [options.scope] - Scopes keys, e.g. per user.
+ * @param {(req: Request) => string} [options.fingerprint] - Request fingerprint.
+ * @returns {RequestHandler} - Middleware for idempotency keys.
+ *
+ * @example
+ * app.post(
+ *   '/orders',
+ *   idempotency({required: true, scope: req => req.user.id}),
+ *   handler(async req => ApiRes.created(await orders.create(req.body))),
+ * );
+ */
+export const idempotency = (
+  options: IdempotencyOptions = {},
+): RequestHandler => {
+  const {
+    header = 'Idempotency-Key',
+    methods = ['POST', 'PATCH'],
+    required = false,
+    store = new MemoryStore<IdempotencyEntry>(),
+    prefix = 'idem:',
+    ttl = 86_400_000,
+    lockTtl = 60_000,
+    headers = ['Location'],
+    maxBodySize = 1_048_576,
+    scope,
+    fingerprint = defaultFingerprint,
+  } = options;
+
+  return handler(async (req, res, next) => {
+    if (!methods.includes(req.method)) return next();
+    const value = req.get(header);
+    if (!value) {
+      if (required) throw new BadRequestError(`${header} header is required`);
+      return next();
+    }
+    if (value.length > 255)
+      throw new BadRequestError(`${header} header is too long`);
+
+    const key = prefix + (scope ? `${scope(req)}:` : '') + value;
+    const print = fingerprint(req);
+
+    // Replay, or reject a repeat of an in-flight or different request
+    const check = (entry: IdempotencyEntry) => {
+      if (entry.fingerprint !== print)
+        throw new UnprocessableEntityError(
+          `${header} was already used for a different request`,
+        );
+      if (entry.status === undefined)
+        throw new ConflictError(
+          `A request with this ${header} is still in progress`,
+        );
+      res.set({...entry.headers, 'Idempotent-Replayed': 'true'});
+      res.status(entry.status).send(Buffer.from(entry.body ?? '', 'base64'));
+    };
+
+    const entry = await store.get(key);
+    if (entry) return check(entry);
+
+    // Claim the key, atomically when the store supports it
+    const pending: IdempotencyEntry = {fingerprint: print};
+    if (store.add) {
+      if (!(await store.add(key, pending, lockTtl))) {
+        const current = await store.get(key);
+        if (current) return check(current);
+        throw new ConflictError(
+          `A request with this ${header} is still in progress`,
+        );
+      }
+    } else await store.set(key, pending, lockTtl);
+
+    // Store or release the key once the response is produced, even when the
+    // connection is gone. Closing without a response keeps it locked until `lockTtl`.
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let skipped = false;
+    /** Stops buffering a response that can't be replayed and frees its key. */
+    const skip = () => {
+      skipped = true;
+      chunks.length = 0;
+      Promise.resolve(store.delete(key)).catch(() => undefined);
+    };
+    const collect = (chunk: unknown, encoding: unknown) => {
+      if (skipped) return;
+      // Event streams have no final body to replay
+      if (res.get('Content-Type')?.startsWith('text/event-stream'))
+        return skip();
+      let buffer: Buffer | undefined;
+      if (typeof chunk === 'string')
+        buffer = Buffer.from(chunk, encoding as BufferEncoding | undefined);
+      else if (chunk instanceof Uint8Array) buffer = Buffer.from(chunk);
+      if (!buffer) return;
+      size += buffer.length;
+      if (size > maxBodySize) return skip();
+      chunks.push(buffer);
+    };
+    let settled = false;
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+      if (skipped) return;
+      const done =
+        res.statusCode >= 200 && res.statusCode < 300
+          ? store.set(
+              key,
+              {
+                fingerprint: print,
+                status: res.statusCode,
+                body: Buffer.concat(chunks).toString('base64'),
+                headers: pickHeaders(res, ['Content-Type', ...headers]),
+              },
+              ttl,
+            )
+          : store.delete(key);
+      // The response is already sent, a failing store can't be reported
+      Promise.resolve(done).catch(() => undefined);
+    };
+
+    // Capture the body whatever serialized it (`res.json`, `res.send`, streams)
+    const write = res.write.bind(res) as (...args: unknown[]) => boolean;
+    const end = res.end.bind(res) as (...args: unknown[]) => Response;
+    res.write = ((chunk: unknown, ...rest: unknown[]) => {
+      collect(chunk, rest[0]);
+      return write(chunk, ...rest);
+    }) as Response['write'];
+    res.end = ((chunk?: unknown, ...rest: unknown[]) => {
+      collect(chunk, rest[0]);
+      settle();
+      return end(chunk, ...rest);
+    }) as Response['end'];
+    next();
+  });
+};
@@ -1,6 +1,68 @@
 export * from './enums';
 export * from './errors';
+export * from './error-map';
 export * from './middle';
+export * from './context';
 export * from './api-res';
+export * from './envelope';
+export * from './paginate';
+export * from './results';
+export * from './conditional';
+export * from './serializers';
 export * from './handler';
-export type {ValueOf, NumberOf} from './types';
+export * from './validate';
+export * from './controller';
+export * from './container';
+export * from './route';
+export * from './client';
+export * from './openapi';
+export * from './store';
+export * from './rate-limit';
+export * from './idempotency';
+export * from './health';
+export type {
+  ValueOf,
+  NumberOf,
+  Schema,
+  Validator,
+  Serializer,
+  Token,
+  Provider,
+  ProviderScope,
+  InjectableOptions,
+  HealthCheck,
+  HealthReport,
+  HealthCheckResult,
+  HealthCheckOptions,
+  HealthRouterOptions,
+  ShutdownOptions,
+  Guard,
+  Interceptor,
+  InterceptorContext,
+  Envelope,
+  ConditionalValidators,
+  Client,
+  RouteDef,
+  RouteOutput,
+  RouteErrors,
+  RouteDocs,
+  JsonSchema,
+  Store,
+  RateLimitState,
+  RateLimitOptions,
+  RateLimitAlgorithm,
+  IdempotencyEntry,
+  IdempotencyOptions,
+  OpenApiDocument,
+  ClientInput,
+  HttpResBody,
+  HttpErrorBody,
+  ErrorContext,
+  RequestContext,
+  OffsetMeta,
+  CursorMeta,
+  StandardSchema,
+  ProblemDetails,
+  ValidationIssue,
+  ValidationResult,
+} from './types';
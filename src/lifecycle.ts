@@ -0,0 +1,40 @@
+import {AsyncResource} from 'async_hooks';
+import type {Request, Response} from 'express';
+
+/** Promises of the handlers still running for a response. */
+const running = new WeakMap<Response, Set<Promise<unknown>>>();
+
+/**
+ * Re-enters the current async context in stream callbacks of a request
+ * (e.g. body parsers calling `next` from a `data` event).
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ */
+export const bindEmitters = (req: Request, res: Response): void => {
+  req.emit = AsyncResource.bind(req.emit.bind(req));
+  res.emit = AsyncResource.bind(res.emit.bind(res));
+};
+
+/**
+ * Tracks a running handler of a response until it settles.
+ * @param {Response} res - The Express response object.
+ * @param {Promise<unknown>} promise - The handler's result.
+ */
+export const track = (res: Response, promise: Promise<unknown>): void => {
+  let pending = running.get(res);
+  if (!pending) running.set(res, (pending = new Set()));
+  pending.add(promise);
+  const done = () => pending.delete(promise);
+  promise.then(done, done);
+};
+
+/**
+ * Waits until every tracked handler of a response has settled, including
+ * handlers started meanwhile (e.g. `ConditionalRes` actions).
+ * @param {Response} res - The Express response object.
+ * @returns {Promise<void>} - Resolves once nothing runs for the response.
+ */
+export const settled = async (res: Response): Promise<void> => {
+  const pending = running.get(res);
+  while (pending?.size) await Promise.allSettled(pending);
+};
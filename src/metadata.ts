@@ -0,0 +1,87 @@
+import type {Constructor, ControllerMeta, RouteMeta} from './types';
+
+/** Any method a decorator can be applied to. */
+export type Method = (...args: any[]) => any;
+
+/** Route metadata of decorated methods, keyed by the method function. */
+export const routes = new WeakMap<Method, RouteMeta>();
+
+/** Controller metadata of decorated classes, keyed by the class constructor. */
+export const controllers = new WeakMap<Constructor<any>, ControllerMeta>();
+
+/** Whether a prototype chain declares route methods, cached per prototype. */
+const routed = new WeakMap<object, boolean>();
+
+/** Returns the route metadata of a method, creating it on first use. */
+export const getRoute = (method: Method): RouteMeta => {
+  let meta = routes.get(method);
+  if (!meta)
+    routes.set(
+      method,
+      (meta = {middlewares: [], guards: [], interceptors: []}),
+    );
+  return meta;
+};
+
+/** Returns the controller metadata of a class, creating it on first use. */
+export const getController = (cls: Constructor<any>): ControllerMeta => {
+  let meta = controllers.get(cls);
+  if (!meta)
+    controllers.set(
+      cls,
+      (meta = {middlewares: [], guards: [], interceptors: []}),
+    );
+  return meta;
+};
+
+/**
+ * Merges the metadata of the decorated classes in a prototype chain.
+ * The prefix comes from the nearest `@Controller`; middlewares, guards and
+ * interceptors of base classes run before those of derived classes.
+ * @param {object} proto - The prototype to start from.
+ * @returns {ControllerMeta | undefined} - The metadata, if any class is decorated.
+ */
+export const findController = (proto: object): ControllerMeta | undefined => {
+  const chain: ControllerMeta[] = [];
+  for (
+    let p = proto;
+    p && p !== Object.prototype;
+    p = Object.getPrototypeOf(p)
+  ) {
+    const meta = controllers.get(p.constructor as Constructor<any>);
+    if (meta) chain.unshift(meta);
+  }
+  if (!chain.length) return undefined;
+  return chain.reduce<ControllerMeta>(
+    (merged, meta) => ({
+      prefix: meta.prefix ?? merged.prefix,
+      middlewares: [...merged.middlewares, ...meta.middlewares],
+      guards: [...merged.guards, ...meta.guards],
+      interceptors: [...merged.interceptors, ...meta.interceptors],
+    }),
+    {middlewares: [], guards: [], interceptors: []},
+  );
+};
+
+/**
+ * Checks if a prototype chain declares any route method (`@Get`, `@Post`, ...).
+ * @param {object} proto - The prototype to start from.
+ * @returns {boolean} - True if a method of the chain is a route.
+ */
+export const hasRoutes = (proto: object): boolean => {
+  let result = routed.get(proto);
+  if (result === undefined) {
+    result = false;
+    for (
+      let p = proto;
+      p && p !== Object.prototype && !result;
+      p = Object.getPrototypeOf(p)
+    )
+      result = Object.getOwnPropertyNames(p).some(name => {
+        const {value} = Object.getOwnPropertyDescriptor(p, name) ?? {};
+        return typeof value === 'function' && !!routes.get(value)?.method;
+      });
+    routed.set(proto, result);
+  }
+  return result;
+};
@@ -1,23 +1,93 @@
-import {join} from 'path';
+import {readFile, stat} from 'fs/promises';
+import {basename, dirname, extname, join, normalize, resolve, sep} from 'path';
 import {match} from 'path-to-regexp';
-import {HttpError, InternalServerError} from './errors';
-import type {ErrorOptions, ServeOptions} from './types';
+import {sendNegotiated} from './serializers';
+import {performance} from 'perf_hooks';
+import {mapError} from './error-map';
+import {formatError} from './envelope';
+import {getRequestContext} from './context';
+import {handler} from './handler';
+import {HttpError, InternalServerError, NotFoundError} from './errors';
+import type {
+  ErrorCause,
+  ErrorContext,
+  ErrorOptions,
+  ServeOptions,
+  TemplateData,
+} from './types';
 import express, {
   Router,
+  type Request,
+  type Response,
+  type NextFunction,
   type ErrorRequestHandler,
   type RequestHandler,
 } from 'express';
 
+/** Media type of RFC 9457 problem details responses. */
+const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * Collects the `cause` chain of an error, outermost first.
+ * @param {Error} error - The error whose causes are collected.
+ * @returns {ErrorCause[]} - The causes, stopping at the first repeated one.
+ */
+const getCauses = (error: Error): ErrorCause[] => {
+  const causes: ErrorCause[] = [];
+  const seen = new Set<unknown>([error]);
+  for (let cause = error.cause; cause !== undefined; ) {
+    if (seen.has(cause)) break;
+    seen.add(cause);
+    if (cause instanceof Error) {
+      const {name, message, stack} = cause;
+      causes.push({name, message, stack});
+      cause = cause.cause;
+    } else {
+      causes.push({name: typeof cause, message: String(cause)});
+      break;
+    }
+  }
+  return causes;
+};
+
+/**
+ * Builds the logging context of a failed request.
+ * @param {Request} req - The Express request object.
+ * @param {number} status - The status of the error response.
+ * @returns {ErrorContext} - The request id, method, path, status, duration and user agent.
+ */
+const getErrorContext = (req: Request, status: number): ErrorContext => {
+  const context = getRequestContext();
+  return {
+    requestId: context?.id,
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    status,
+    duration: context && Math.round(performance.now() - context.start),
+    userAgent: req.get('User-Agent'),
+  };
+};
+
 /**
  * Express middleware to handle `HttpError` and unknown errors.
  *
- * - Sends JSON response for `HttpError` instances.
+ * - Sends `HttpError` instances in the format negotiated from `Accept` (JSON by default),
+ *   in the envelope of the request's app (see `registerEnvelope`).
+ * - Sets the error's `headers` (e.g. `Retry-After`, `Allow`, `WWW-Authenticate`).
+ * - Converts errors matched by `registerErrorMapper` (e.g. invalid JSON bodies) into `HttpError`s.
  * - Logs unknown errors and sends generic error response.
- * - Includes detailed error info in development (`isDev`).
+ * - Includes detailed error info and the `cause` chain in development (`isDev`).
+ * - Sends `application/problem+json` (RFC 9457) bodies when `format` is `problem`.
+ * - If the response was already sent, logs the error with `write` and delegates
+ *   to Express, which closes a partly written response (or throws in dev with
+ *   `throwOnHeadersSent`).
  *
  * @param {object} [options] - Options for error handling.
  * @param {boolean} [options.isDev=true] - Include detailed error information in responses if true. Default is `true`.
- * @param {(err: unknown) => void} [options.write] - Function to handle logging of unknown errors. If not provided, errors will not be logged.
+ * @param {(err: unknown, context: ErrorContext) => void} [options.write] - Function to handle logging of unknown errors, with the request context (id, method, path, status, duration, user agent). If not provided, errors will not be logged.
+ * @param {'json'|'problem'} [options.format='json'] - Response body format. Default is `json`.
+ * @param {string} [options.typeBase] - Base URI of the problem `type` member. If not provided, `about:blank` is used.
+ * @param {boolean} [options.throwOnHeadersSent=false] - In dev, throw when an error arrives after the response was sent.
  *
  * @returns {ErrorRequestHandler} - Middleware for handling errors.
  *
@@ -28,66 +98,317 @@ import express, {
  * // Custom usage with a logging function in production mode:
  * app.use(globalErrorHandler({
  *  isDev: process.env.NODE_ENV !== 'production',
- *  write: error => console.error(error)
+ *  write: (error, context) => console.error(context, error)
+ * }));
+ *
+ * // RFC 9457 problem details responses:
+ * app.use(globalErrorHandler({
+ *  format: 'problem',
+ *  typeBase: 'https://errors.example.com',
  * }));
  */
 export const globalErrorHandler = (
   options: ErrorOptions = {},
 ): ErrorRequestHandler => {
-  const {isDev = true, write = undefined} = options;
+  const {
+    isDev = true,
+    write = undefined,
+    format = 'json',
+    typeBase,
+    throwOnHeadersSent = false,
+  } = options;
+  const isProblem = format === 'problem';
+
+  /** Sends the error in the configured body format. */
+  const send = (error: HttpError, req: Request, res: Response) => {
+    // Set status-specific headers (e.g. `Retry-After`, `Allow`)
+    res.set(error.headers);
+    const causes = isDev ? getCauses(error) : [];
+    if (!isProblem) {
+      const body = error.toJson();
+      if (causes.length) body.cause = causes;
+      return sendNegotiated(
+        req,
+        res,
+        error.status,
+        formatError(error, req, body),
+        true,
+      );
+    }
+    const body = error.toProblem({typeBase, instance: req.originalUrl});
+    if (causes.length) body.cause = causes;
+    return res.status(error.status).type(PROBLEM_CONTENT_TYPE).json(body);
+  };
 
   return (err, req, res, next): any => {
-    // Handle known HttpError instances
-    if (HttpError.isHttpError(err))
-      return res.status(err.status).json(err.toJson());
+    if (res.headersSent) {
+      // The error can't be sent anymore, report it with the request context
+      write?.(err, getErrorContext(req, res.statusCode));
+      if (isDev && throwOnHeadersSent)
+        throw new Error(
+          `Error raised after the response was sent: ${req.method} ${req.originalUrl}`,
+          {cause: err},
+        );
+      // Let Express close a partly written response, a complete one is kept
+      return res.writableEnded ? undefined : next(err);
+    }
 
-    // Write unknown errors if a write function is provided
-    write?.(err);
+    // Handle known HttpError instances and errors with a registered mapper
+    const known = HttpError.isHttpError(err) ? err : mapError(err);
+    if (known) return send(known, req, res);
 
     // Create an InternalServerError for unknown errors
+    const stack = isProblem ? {stack: err.stack} : err.stack;
     const error = new InternalServerError(
       isDev ? err.message : 'Something went wrong',
-      isDev ? err.stack : null,
-    );
-    return res.status(error.status).json(error.toJson());
+      isDev ? stack : null,
+    ).causedBy(err);
+
+    // Write unknown errors if a write function is provided
+    write?.(err, getErrorContext(req, error.status));
+    return send(error, req, res);
   };
 };
 
 /**
- * Middleware to serve static files and handle SPA routing.
- * Serves static files from a directory and returns `index.html` for unmatched routes,
- * excluding specified patterns (e.g., API routes).
- *
- * @param {object} [options] - Configuration options.
- * @param {string} [options.path="public"] - Directory to serve static files from.
- * @param {Array<string>|string} [options.exclude='/api{/*path}'] - Routes to exclude from SPA routing.
- * @returns {Router} - Express Router configured for static file serving and SPA routing.
- *
- * @example
- * // Serve static files from "public" directory and handle SPA routing
- * app.use(serveStatic({ path: 'public', exclude: '/api{/*path}' }));
+ * Hashed asset names, e.g. `index-BXk7a9Zq.js` or `main.3f2a1b4c.css`: a `.` or `-`
+ * then 8+ hash characters (with a digit and a letter) right before the extension.
+ * Sizes like `android-chrome-192x192.png` or `favicon-1024x1024.png` are not hashes.
  */
-export const serveStatic = (options: ServeOptions = {}): Router => {
-  const {exclude = '/api{/*path}', path = join(process.cwd(), 'public')} =
-    options;
+const HASHED_ASSET =
+  /[.-](?!\d+x\d+\.)(?=[a-z_]*\d)(?=\d*[a-z_])[a-z\d_]{8,}\.[a-z\d]+$/i;
+
+/** Precompressed siblings, in order of preference. */
+const ENCODINGS = [
+  {encoding: 'br', ext: '.br'},
+  {encoding: 'gzip', ext: '.gz'},
+] as const;
+
+/** Checks if a path is an existing file. */
+const isFile = (file: string): Promise<boolean> =>
+  stat(file).then(
+    stats => stats.isFile(),
+    () => false,
+  );
+
+/** Resolves to true if the path is an existing directory. */
+const isDirectory = (dir: string): Promise<boolean> =>
+  stat(dir).then(
+    stats => stats.isDirectory(),
+    () => false,
+  );
+
+/** `{{ key }}` placeholders of `index.html` templates. */
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/;
+
+/**
+ * Converts a template value to safe HTML: strings are HTML-escaped, other
+ * values are serialized as JSON that is safe inside a `<script>` tag.
+ * @param {unknown} value - The template value.
+ * @returns {string} - The escaped value.
+ */
+const toHtml = (value: unknown): string => {
+  if (typeof value === 'string')
+    return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+  return JSON.stringify(value ?? null).replace(
+    /[<>&\u2028\u2029]/g,
+    char => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+};
+
+/**
+ * Creates an `index.html` renderer that substitutes `{{ key }}` placeholders.
+ * The parsed template is cached and re-read when the file's mtime changes.
+ * @param {string} file - The template file.
+ * @returns A function rendering the template with the given data.
+ */
+const createTemplate = (file: string) => {
+  let cache: {mtimeMs: number; parts: string[]} | undefined;
+
+  return async (data: TemplateData): Promise<string> => {
+    const {mtimeMs} = await stat(file);
+    if (cache?.mtimeMs !== mtimeMs) {
+      // Odd indexes hold placeholder keys after splitting on the capture group
+      const parts = (await readFile(file, 'utf8')).split(
+        new RegExp(PLACEHOLDER.source, 'g'),
+      );
+      cache = {mtimeMs, parts};
+    }
+    return cache.parts
+      .map((part, i) => {
+        if (i % 2 === 0) return part;
+        // Own keys only, `{{constructor}}` must not reach the prototype
+        return Object.hasOwn(data, part) ? toHtml(data[part]) : `{{${part}}}`;
+      })
+      .join('');
+  };
+};
+
+/**
+ * Creates the router of a single static app.
+ * @param {ServeOptions} options - Configuration options of the app.
+ * @returns {Router} - Express Router serving the app.
+ */
+const createStaticApp = (options: ServeOptions): Router => {
+  const {
+    exclude = '/api{/*path}',
+    path = join(process.cwd(), 'public'),
+    maxAge = 0,
+    immutable = HASHED_ASSET,
+    precompressed = true,
+    render,
+  } = options;
+  const root = resolve(path);
   const excludes = Array.isArray(exclude) ? exclude : [exclude];
 
-  const indexFile = join(path, 'index.html');
+  const indexFile = join(root, 'index.html');
+  const template = render && createTemplate(indexFile);
   const excludeMatchers = excludes.map(pattern => match(pattern, {end: false}));
 
   /** Checks if a path matches any excluded patterns. */
   const isExcluded = (pathname: string): boolean =>
     excludeMatchers.some(matcher => matcher(pathname));
 
-  /** Middleware to serve `index.html` for non-excluded routes. */
-  const renderIndex: RequestHandler = (req, res, next) => {
+  /** Sets `Cache-Control` based on the file name. */
+  const setCacheControl = (res: Response, file: string): void => {
+    const name = basename(file);
+    if (name === 'index.html') res.set('Cache-Control', 'no-cache');
+    else if (immutable.test(name))
+      res.set('Cache-Control', 'public, max-age=31536000, immutable');
+    else res.set('Cache-Control', `public, max-age=${maxAge}`);
+  };
+
+  /**
+   * Sends the best precompressed sibling of a file accepted by the client.
+   * Resolves to false if there is none, so the caller can serve the file itself.
+   */
+  const sendEncoded = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    file: string,
+  ): Promise<boolean> => {
+    if (!precompressed) return false;
+    res.vary('Accept-Encoding');
+    for (const {encoding, ext} of ENCODINGS) {
+      if (req.acceptsEncodings(encoding) !== encoding) continue;
+      if (!(await isFile(file + ext))) continue;
+      setCacheControl(res, file);
+      res.set('Content-Encoding', encoding).type(extname(file));
+      res.sendFile(file + ext, err => err && next(err));
+      return true;
+    }
+    return false;
+  };
+
+  /** Sends `index.html`, rendered through the template when `render` is set. */
+  const sendIndex = async (req: Request, res: Response, next: NextFunction) => {
+    setCacheControl(res, indexFile);
+    if (template) {
+      res.type('html').send(await template(await render!(req)));
+      return;
+    }
+    if (await sendEncoded(req, res, next, indexFile)) return;
+    res.sendFile(indexFile, err => err && next(err));
+  };
+
+  /** Middleware to serve precompressed siblings of static files. */
+  const serveEncoded = handler(async (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') return next();
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(req.path);
+    } catch {
+      return next(); // Malformed URIs are left to `express.static`
+    }
+    const file = join(root, normalize(pathname));
+    // Never leave the static directory
+    if (!file.startsWith(root + sep) || file.includes('\0')) return next();
+    if (!(await isFile(file)) || !(await sendEncoded(req, res, next, file)))
+      next();
+  });
+
+  /**
+   * Checks if a path names a file in an existing folder of the static
+   * directory, so `/assets/old.js` is a missing asset but `/users/john.doe`
+   * is a route.
+   */
+  const isMissingAsset = async (pathname: string): Promise<boolean> => {
+    if (!extname(pathname)) return false;
+    let dir: string;
+    try {
+      dir = join(root, normalize(dirname(decodeURIComponent(pathname))));
+    } catch {
+      return false;
+    }
+    if (dir !== root && !dir.startsWith(root + sep)) return false;
+    return isDirectory(dir);
+  };
+
+  /** Middleware to serve `index.html` for non-excluded navigation routes. */
+  const renderIndex = handler(async (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') return next();
     const pathname = req.originalUrl.split('?')[0];
     if (isExcluded(pathname)) return next();
-    res.sendFile(indexFile);
-  };
+    // Only browser navigations get the SPA shell
+    if (!req.get('Accept')?.includes('text/html')) return next();
+    // Missing assets are real 404s, not the SPA shell
+    if (await isMissingAsset(req.path))
+      throw new NotFoundError(`Cannot find ${pathname}`);
+    await sendIndex(req, res, next);
+  });
+
+  const router = express.Router();
+  // Direct `index.html` requests are rendered too
+  if (template) router.get('/index.html', handler(sendIndex));
+  return router
+    .use(serveEncoded) // Serve precompressed files
+    .use(express.static(root, {index: false, setHeaders: setCacheControl})) // Serve static files
+    .use(renderIndex); // Handle SPA routing, `*` paths differ in Express 4 and 5
+};
 
-  return express
-    .Router()
-    .use(express.static(path, {index: false})) // Serve static files
-    .get('*', renderIndex); // Handle SPA routing
+/**
+ * Middleware to serve static files and handle SPA routing.
+ * Serves static files from a directory and returns `index.html` for unmatched
+ * navigation requests, excluding specified patterns (e.g., API routes).
+ *
+ * - Serves precompressed `.br`/`.gz` siblings based on `Accept-Encoding`.
+ * - Caches hashed asset names as immutable for a year, `index.html` as `no-cache`.
+ * - Only falls back to `index.html` for `Accept: text/html` requests.
+ * - Returns a 404 `NotFoundError` for such requests of missing files with an extension in an existing folder.
+ * - Mounts several apps when given an array, each under its own `base`.
+ * - Renders `{{ key }}` placeholders of `index.html` with the values returned by `render`.
+ *
+ * @param {object | object[]} [options] - Configuration options, or one per app.
+ * @param {string} [options.path="public"] - Directory to serve static files from.
+ * @param {string} [options.base='/'] - URL path the app is mounted at.
+ * @param {Array<string>|string} [options.exclude='/api{/*path}'] - Routes to exclude from SPA routing, matched against the full URL path.
+ * @param {number} [options.maxAge=0] - Cache max-age in seconds of non-hashed assets.
+ * @param {RegExp} [options.immutable] - File names cached as immutable. Default matches hashed names.
+ * @param {boolean} [options.precompressed=true] - Serve `.br`/`.gz` siblings if present.
+ * @param {(req: Request) => TemplateData} [options.render] - Values of the `index.html` placeholders for a request.
+ * @returns {Router} - Express Router configured for static file serving and SPA routing.
+ *
+ * @example
+ * // Serve static files from "public" directory and handle SPA routing
+ * app.use(serveStatic({ path: 'public', exclude: '/api{/*path}' }));
+ *
+ * // Serve several apps with runtime config
+ * app.use(serveStatic([
+ *   { path: 'apps/admin', base: '/admin' },
+ *   { path: 'apps/web', render: req => ({ config: { apiUrl: process.env.API_URL } }) },
+ * ]));
+ */
+export const serveStatic = (
+  options: ServeOptions | ServeOptions[] = {},
+): Router => {
+  const apps = Array.isArray(options) ? options : [options];
+  const router = express.Router();
+  // Mount the most specific base first so `/` does not shadow `/admin`
+  const bases = apps.map(({base = '/'}) => `/${base}`.replace(/\/+/g, '/'));
+  apps
+    .map((app, i) => ({app, base: bases[i]}))
+    .sort((a, b) => b.base.length - a.base.length)
+    .forEach(({app, base}) => router.use(base, createStaticApp(app)));
+  return router;
 };
@@ -0,0 +1,330 @@
+import {Router} from 'express';
+import {HttpStatus} from './enums';
+import {HttpError, InternalServerError, createHttpError} from './errors';
+import type {
+  Schema,
+  RouteDef,
+  JsonSchema,
+  OpenApiOptions,
+  OpenApiDocument,
+  ServeOpenApiOptions,
+} from './types';
+
+/** Media types of the success and error bodies. */
+const JSON_CONTENT_TYPE = 'application/json';
+const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/** JSON Schema of `string | string[]` messages. */
+const MESSAGE_SCHEMA: JsonSchema = {
+  oneOf: [{type: 'string'}, {type: 'array', items: {type: 'string'}}],
+};
+
+/** Shared component schemas, matching `HttpError.toJson()` and `toProblem()`. */
+const COMPONENTS: Record<string, JsonSchema> = {
+  HttpError: {
+    type: 'object',
+    required: ['status', 'error', 'message'],
+    properties: {
+      status: {type: 'integer'},
+      error: {type: 'string'},
+      message: MESSAGE_SCHEMA,
+      detail: {},
+      code: {type: 'string'},
+      cause: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'message'],
+          properties: {
+            name: {type: 'string'},
+            message: {type: 'string'},
+            stack: {type: 'string'},
+          },
+        },
+      },
+      requestId: {type: 'string'},
+    },
+  },
+  ProblemDetails: {
+    type: 'object',
+    required: ['type', 'title', 'status'],
+    properties: {
+      type: {type: 'string', format: 'uri-reference'},
+      title: {type: 'string'},
+      status: {type: 'integer'},
+      detail: {type: 'string'},
+      instance: {type: 'string', format: 'uri-reference'},
+      messages: {type: 'array', items: {type: 'string'}},
+      code: {type: 'string'},
+      requestId: {type: 'string'},
+    },
+    additionalProperties: true,
+  },
+  FieldError: {
+    type: 'object',
+    required: ['path', 'message'],
+    properties: {
+      path: {type: 'string'},
+      message: {type: 'string'},
+    },
+  },
+};
+
+/** Field errors of validation errors, `detail.errors` or a problem extension. */
+const FIELD_ERRORS: JsonSchema = {
+  type: 'array',
+  items: {$ref: '#/components/schemas/FieldError'},
+};
+
+/**
+ * Default schema converter: reads Standard JSON Schema (`~standard.jsonSchema`)
+ * when the schema library provides it, otherwise leaves the schema open.
+ * @param {Schema} schema - The schema to convert.
+ * @param {'input'|'output'} io - Convert the input or the output type.
+ * @returns {JsonSchema|undefined} - The JSON Schema, if available.
+ */
+const defaultToJsonSchema = (
+  schema: Schema,
+  io: 'input' | 'output',
+): JsonSchema | undefined => {
+  const converter = (schema as any)?.['~standard']?.jsonSchema?.[io];
+  return typeof converter === 'function'
+    ? converter({target: 'draft-2020-12'})
+    : undefined;
+};
+
+/**
+ * Builds the success envelope of a route, matching `ApiRes.toJson()`.
+ * @param {JsonSchema} result - The JSON Schema of the result.
+ * @returns {JsonSchema} - The envelope schema.
+ */
+const successSchema = (result: JsonSchema): JsonSchema => ({
+  type: 'object',
+  required: ['status', 'message', 'result'],
+  properties: {
+    status: {type: 'integer'},
+    message: {type: 'string'},
+    result,
+    requestId: {type: 'string'},
+  },
+});
+
+/**
+ * Creates an OpenAPI 3.1 document from route contracts defined with `defineRoute`.
+ *
+ * - Paths are converted from Express (`/users/:id`) to OpenAPI (`/users/{id}`) syntax.
+ * - Path, query and header parameters and the JSON request body come from the route schemas.
+ * - The success response wraps the `result` schema in the `ApiRes.toJson()` envelope.
+ * - Each `HttpError` class in `errors`, validation errors and `500` are documented
+ *   with the `HttpError.toJson()` (or problem details) body. Validation errors list
+ *   the failing fields as `detail.errors` (or the `errors` extension) of `{path, message}`.
+ * - Routes registered with `all` have no single method and are skipped.
+ *
+ * Bodies are described in the default envelope, not one set with `registerEnvelope`.
+ * Schemas are converted with `toJsonSchema`, by default through Standard JSON Schema
+ * (`~standard.jsonSchema`); schemas without a conversion are left open (`{}`).
+ *
+ * @param {RouteDef[]|Record<string, RouteDef>} routes - The route contracts, keys are used as `operationId`.
+ * @param {OpenApiOptions} [options] - Document info, servers, mount prefix and error format.
+ * @returns {OpenApiDocument} - The OpenAPI document.
+ *
+ * @example
+ * import {z} from 'zod';
+ *
+ * const doc = generateOpenApi({getUser, createUser}, {
+ *   info: {title: 'Users API', version: '1.0.0'},
+ *   prefix: '/api',
+ *   toJsonSchema: (schema, io) => z.toJSONSchema(schema as z.ZodType, {io}),
+ * });
+ */
+export const generateOpenApi = (
+  routes: RouteDef[] | Record<string, RouteDef>,
+  options: OpenApiOptions = {},
+): OpenApiDocument => {
+  const {
+    info = {title: 'API', version: '1.0.0'},
+    servers,
+    prefix = '',
+    format = 'json',
+    typeBase,
+    validationStatus = HttpStatus.BAD_REQUEST,
+    toJsonSchema = defaultToJsonSchema,
+  } = options;
+  const isProblem = format === 'problem';
+  const convert = (schema: Schema | undefined, io: 'input' | 'output') =>
+    schema === undefined ? undefined : toJsonSchema(schema, io);
+
+  /** Builds the body schema of sample errors sharing one status. */
+  const errorSchema = (errors: HttpError[], validation: boolean) => {
+    const [first] = errors;
+    const names = [...new Set(errors.map(error => error.name))];
+    const refined: JsonSchema = isProblem
+      ? {
+          properties: {
+            type: {const: first.toProblem({typeBase}).type},
+            status: {const: first.status},
+          },
+        }
+      : {
+          properties: {
+            status: {const: first.status},
+            error: names.length === 1 ? {const: names[0]} : {enum: names},
+          },
+        };
+    // Validation errors list the failing fields
+    if (validation && isProblem) {
+      refined.required = ['errors'];
+      refined.properties.errors = FIELD_ERRORS;
+    } else if (validation) {
+      refined.required = ['detail'];
+      refined.properties.detail = {
+        type: 'object',
+        required: ['errors'],
+        properties: {errors: FIELD_ERRORS},
+      };
+    }
+    const ref = isProblem ? 'ProblemDetails' : 'HttpError';
+    return {allOf: [{$ref: `#/components/schemas/${ref}`}, refined]};
+  };
+
+  /** Builds the error response of one status from sample errors. */
+  const errorResponse = (errors: HttpError[], validation?: HttpError) => {
+    const others = errors.filter(error => error !== validation);
+    const schemas = [];
+    if (others.length) schemas.push(errorSchema(others, false));
+    if (validation && errors.includes(validation))
+      schemas.push(errorSchema([validation], true));
+    return {
+      description: [...new Set(errors.map(error => error.name))].join(', '),
+      content: {
+        [isProblem ? PROBLEM_CONTENT_TYPE : JSON_CONTENT_TYPE]: {
+          schema: schemas.length === 1 ? schemas[0] : {anyOf: schemas},
+        },
+      },
+    };
+  };
+
+  const paths: OpenApiDocument['paths'] = {};
+  const entries = Array.isArray(routes)
+    ? routes.map(route => [undefined, route] as const)
+    : Object.entries(routes);
+
+  for (const [operationId, route] of entries) {
+    if (route.method === 'all') continue;
+    const {schemas} = route;
+
+    // Parameters: path names first, then the properties of each schema
+    const parameters: Record<string, unknown>[] = [];
+    const addParameters = (
+      location: 'path' | 'query' | 'header',
+      schema: Schema | undefined,
+      names: string[] = [],
+    ) => {
+      const json = convert(schema, 'input');
+      const properties: Record<string, JsonSchema> = json?.properties ?? {};
+      const required = new Set<string>(json?.required ?? []);
+      for (const name of new Set([...names, ...Object.keys(properties)]))
+        parameters.push({
+          name,
+          in: location,
+          required: location === 'path' || required.has(name),
+          schema: properties[name] ?? {type: 'string'},
+        });
+    };
+    const pathNames = [...route.path.matchAll(/:(\w+)/g)].map(
+      ([, name]) => name,
+    );
+    addParameters('path', schemas.params, pathNames);
+    addParameters('query', schemas.query);
+    addParameters('header', schemas.headers);
+
+    // Error responses, grouped by status
+    const samples: HttpError[] = route.errors.map(Cls => new Cls(''));
+    const validation =
+      schemas.params || schemas.query || schemas.body || schemas.headers
+        ? createHttpError(validationStatus, 'Validation failed', {errors: []})
+        : undefined;
+    if (validation) samples.push(validation);
+    samples.push(new InternalServerError(''));
+    const byStatus = new Map<number, HttpError[]>();
+    for (const error of samples)
+      byStatus.set(error.status, [
+        ...(byStatus.get(error.status) ?? []),
+        error,
+      ]);
+
+    const responses: Record<string, unknown> = {
+      [route.status ?? HttpStatus.OK]: {
+        description: 'Successful response',
+        content: {
+          [JSON_CONTENT_TYPE]: {
+            schema: successSchema(convert(schemas.result, 'output') ?? {}),
+          },
+        },
+      },
+    };
+    for (const [status, errors] of byStatus)
+      responses[status] = errorResponse(errors, validation);
+
+    const operation: Record<string, unknown> = {
+      operationId,
+      summary: route.summary,
+      description: route.description,
+      tags: route.tags,
+      deprecated: route.deprecated,
+      parameters: parameters.length ? parameters : undefined,
+      requestBody: schemas.body && {
+        required: true,
+        content: {
+          [JSON_CONTENT_TYPE]: {schema: convert(schemas.body, 'input') ?? {}},
+        },
+      },
+      responses,
+    };
+    // Drop undefined members so the JSON document stays minimal
+    for (const key of Object.keys(operation))
+      if (operation[key] === undefined) delete operation[key];
+
+    const path = (prefix.replace(/\/+$/, '') + route.path).replace(
+      /:(\w+)/g,
+      '{$1}',
+    );
+    paths[path] = {...paths[path], [route.method]: operation};
+  }
+
+  const doc: OpenApiDocument = {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      schemas: COMPONENTS,
+    },
+  };
+  if (servers) doc.servers = servers;
+  return doc;
+};
+
+/**
+ * Serves the OpenAPI document of route contracts as JSON.
+ * The document is generated once, when the middleware is created.
+ *
+ * @param {RouteDef[]|Record<string, RouteDef>} routes - The route contracts.
+ * @param {ServeOpenApiOptions} [options] - `generateOpenApi` options and the document `path`.
+ * @param {string} [options.path='/openapi.json'] - Path the document is served at.
+ * @returns {Router} - The Express router serving the document.
+ *
+ * @example
+ * app.use(serveOpenApi({getUser, createUser}, {path: '/docs/openapi.json', prefix: '/api'}));
+ */
+export const serveOpenApi = (
+  routes: RouteDef[] | Record<string, RouteDef>,
+  options: ServeOpenApiOptions = {},
+): Router => {
+  const {path = '/openapi.json', ...rest} = options;
+  const doc = generateOpenApi(routes, rest);
+  const router = Router();
+  router.get(path, (_req, res) => {
+    res.json(doc);
+  });
+  return router;
+};
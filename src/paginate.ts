@@ -0,0 +1,320 @@
+import {createHmac, timingSafeEqual} from 'crypto';
+import {ApiRes} from './api-res';
+import {BadRequestError} from './errors';
+import type {Request, Response} from 'express';
+import type {
+  CursorMeta,
+  OffsetMeta,
+  PageOptions,
+  CursorOptions,
+  OffsetOptions,
+} from './types';
+
+/**
+ * Reads a positive integer query parameter.
+ * @param {Request} req - The Express request object.
+ * @param {string} name - The query parameter name.
+ * @param {number} fallback - The value used if the parameter is missing.
+ * @returns {number} - The parsed integer.
+ * @throws {BadRequestError} - If the parameter is not a positive integer.
+ */
+const readInt = (req: Request, name: string, fallback: number): number => {
+  const value = req.query[name];
+  if (value === undefined || value === '') return fallback;
+  if (
+    typeof value !== 'string' ||
+    !/^\d+$/.test(value) ||
+    +value < 1 ||
+    // Larger values lose precision, e.g. `page=99999999999999999999`
+    !Number.isSafeInteger(+value)
+  )
+    throw new BadRequestError(`Invalid "${name}" query parameter`, {
+      [name]: 'Must be a positive integer',
+    });
+  return +value;
+};
+
+/**
+ * Reads and clamps the `limit` query parameter.
+ * @param {Request} req - The Express request object.
+ * @param {PageOptions} options - The pagination options.
+ * @returns {number} - The limit, at most `maxLimit`.
+ */
+const readLimit = (req: Request, options: PageOptions): number => {
+  const {defaultLimit = 20, maxLimit = 100, limitParam = 'limit'} = options;
+  return Math.min(readInt(req, limitParam, defaultLimit), maxLimit);
+};
+
+/**
+ * Builds a relative URL to the current route with some query parameters replaced.
+ * @param {Request} req - The Express request object.
+ * @param {Record<string, string | number | null>} params - Parameters to set, `null` removes one.
+ * @returns {string} - The URL path and query string.
+ */
+const linkTo = (
+  req: Request,
+  params: Record<string, string | number | null>,
+): string => {
+  const url = new URL(req.originalUrl, 'http://localhost');
+  for (const [key, value] of Object.entries(params))
+    if (value === null) url.searchParams.delete(key);
+    else url.searchParams.set(key, String(value));
+  return url.pathname + url.search;
+};
+
+/** Signs a cursor payload with HMAC-SHA256. */
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+/**
+ * Encodes a cursor value into an opaque, URL-safe string.
+ *
+ * @param {unknown} value - The cursor value, e.g. the last item's sort key.
+ * @param {string} [secret] - HMAC secret, the cursor is signed if given.
+ * @returns {string} - The encoded cursor.
+ */
+export const encodeCursor = (value: unknown, secret?: string): string => {
+  const payload = Buffer.from(JSON.stringify(value)).toString('base64url');
+  return secret ? `${payload}.${sign(payload, secret)}` : payload;
+};
+
+/**
+ * Decodes a cursor created by `encodeCursor`, verifying its signature if a secret is given.
+ *
+ * @param {string} cursor - The encoded cursor.
+ * @param {string} [secret] - HMAC secret used to sign the cursor.
+ * @returns {T} - The cursor value.
+ * @throws {BadRequestError} - If the cursor is malformed or its signature is invalid.
+ */
+export const decodeCursor = <T = unknown>(
+  cursor: string,
+  secret?: string,
+): T => {
+  const invalid = new BadRequestError('Invalid cursor', {
+    cursor: 'Malformed or tampered cursor',
+  });
+  const [payload, signature = '', ...rest] = cursor.split('.');
+  if (rest.length || (secret ? !signature : signature)) throw invalid;
+  if (secret) {
+    const expected = Buffer.from(sign(payload, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual))
+      throw invalid;
+  }
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString());
+  } catch {
+    throw invalid;
+  }
+};
+
+/**
+ * OffsetPage class for `page`/`limit` pagination.
+ * Create it with `offsetPage(req, options)`.
+ */
+export class OffsetPage {
+  /** Number of items to skip, for the database query. */
+  readonly offset: number;
+
+  /**
+   * @param {Request} req - The Express request object.
+   * @param {number} page - The current page, starting at 1.
+   * @param {number} limit - The number of items per page.
+   * @param {OffsetOptions} options - The pagination options.
+   */
+  constructor(
+    readonly req: Request,
+    readonly page: number,
+    readonly limit: number,
+    readonly options: OffsetOptions = {},
+  ) {
+    this.offset = (page - 1) * limit;
+  }
+
+  /**
+   * Computes the pagination metadata.
+   * @param {number} total - The total number of items.
+   * @returns {OffsetMeta} - The pagination metadata.
+   */
+  public meta(total: number): OffsetMeta {
+    const pages = Math.max(Math.ceil(total / this.limit), 1);
+    return {
+      total,
+      page: this.page,
+      limit: this.limit,
+      pages,
+      hasNext: this.page < pages,
+      hasPrev: this.page > 1,
+    };
+  }
+
+  /**
+   * Builds the `first`, `prev`, `next` and `last` links of the page.
+   * @param {number} total - The total number of items.
+   * @returns {Record<string, string>} - Links keyed by relation type.
+   */
+  public links(total: number): Record<string, string> {
+    const {pageParam = 'page', limitParam = 'limit'} = this.options;
+    const {pages, hasNext, hasPrev} = this.meta(total);
+    const to = (page: number) =>
+      linkTo(this.req, {[pageParam]: page, [limitParam]: this.limit});
+    const links: Record<string, string> = {first: to(1)};
+    if (hasPrev) links.prev = to(Math.min(this.page - 1, pages));
+    if (hasNext) links.next = to(this.page + 1);
+    links.last = to(pages);
+    return links;
+  }
+
+  /**
+   * Sets the RFC 8288 `Link` header and creates a paginated response.
+   *
+   * @param {Response} res - The Express response object.
+   * @param {any[]} data - The items of the current page.
+   * @param {number} total - The total number of items.
+   * @param {string} [message] - The response message.
+   * @returns {ApiRes} - An `ApiRes.paginated` response with the metadata.
+   */
+  public paginated(
+    res: Response,
+    data: any[],
+    total: number,
+    message?: string,
+  ): ApiRes {
+    res.links(this.links(total));
+    return ApiRes.paginated(data, this.meta(total), message);
+  }
+}
+
+/**
+ * CursorPage class for opaque `cursor`/`limit` pagination.
+ * Create it with `cursorPage(req, options)`.
+ */
+export class CursorPage<T = unknown> {
+  /**
+   * @param {Request} req - The Express request object.
+   * @param {T | undefined} cursor - The decoded cursor, undefined on the first page.
+   * @param {number} limit - The number of items per page.
+   * @param {CursorOptions} options - The cursor options.
+   */
+  constructor(
+    readonly req: Request,
+    readonly cursor: T | undefined,
+    readonly limit: number,
+    readonly options: CursorOptions = {},
+  ) {}
+
+  /**
+   * Computes the pagination metadata.
+   * @param {object} cursors - The raw cursor values of the adjacent pages.
+   * @param {unknown} [cursors.next] - Cursor of the next page, omit on the last page.
+   * @param {unknown} [cursors.prev] - Cursor of the previous page, if known.
+   * @returns {CursorMeta} - The pagination metadata.
+   */
+  public meta(cursors: {next?: unknown; prev?: unknown} = {}): CursorMeta {
+    const {secret} = this.options;
+    const {next, prev} = cursors;
+    return {
+      limit: this.limit,
+      hasNext: next !== undefined,
+      nextCursor: next !== undefined ? encodeCursor(next, secret) : null,
+      prevCursor: prev !== undefined ? encodeCursor(prev, secret) : null,
+    };
+  }
+
+  /**
+   * Builds the `first`, `prev` and `next` links of the page.
+   * @param {object} cursors - The raw cursor values of the adjacent pages.
+   * @returns {Record<string, string>} - Links keyed by relation type.
+   */
+  public links(
+    cursors: {next?: unknown; prev?: unknown} = {},
+  ): Record<string, string> {
+    const {cursorParam = 'cursor', limitParam = 'limit'} = this.options;
+    const {nextCursor, prevCursor} = this.meta(cursors);
+    const to = (cursor: string | null) =>
+      linkTo(this.req, {[cursorParam]: cursor, [limitParam]: this.limit});
+    const links: Record<string, string> = {first: to(null)};
+    if (prevCursor) links.prev = to(prevCursor);
+    if (nextCursor) links.next = to(nextCursor);
+    return links;
+  }
+
+  /**
+   * Sets the RFC 8288 `Link` header and creates a paginated response.
+   *
+   * @param {Response} res - The Express response object.
+   * @param {any[]} data - The items of the current page.
+   * @param {object} [cursors] - The raw cursor values of the adjacent pages.
+   * @param {string} [message] - The response message.
+   * @returns {ApiRes} - An `ApiRes.paginated` response with the metadata.
+   */
+  public paginated(
+    res: Response,
+    data: any[],
+    cursors: {next?: unknown; prev?: unknown} = {},
+    message?: string,
+  ): ApiRes {
+    res.links(this.links(cursors));
+    return ApiRes.paginated(data, this.meta(cursors), message);
+  }
+}
+
+/**
+ * Parses and clamps the `page` and `limit` query parameters.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {OffsetOptions} [options] - The pagination options.
+ * @returns {OffsetPage} - The parsed page, with `offset` and `limit` for the query.
+ * @throws {BadRequestError} - If `page` or `limit` is not a positive integer.
+ *
+ * @example
+ * const list = handler(async (req, res) => {
+ *   const page = offsetPage(req, {maxLimit: 50});
+ *   const [users, total] = await db.users.findAndCount({skip: page.offset, take: page.limit});
+ *   return page.paginated(res, users, total);
+ * });
+ */
+export const offsetPage = (
+  req: Request,
+  options: OffsetOptions = {},
+): OffsetPage => {
+  const pageParam = options.pageParam ?? 'page';
+  const page = readInt(req, pageParam, 1);
+  const limit = readLimit(req, options);
+  // A safe page can still overflow the offset
+  if (!Number.isSafeInteger((page - 1) * limit))
+    throw new BadRequestError(`Invalid "${pageParam}" query parameter`, {
+      [pageParam]: 'Must be a positive integer',
+    });
+  return new OffsetPage(req, page, limit, options);
+};
+
+/**
+ * Parses the `cursor` and `limit` query parameters, verifying signed cursors.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {CursorOptions} [options] - The pagination options.
+ * @returns {CursorPage<T>} - The parsed page, with the decoded `cursor` and `limit`.
+ * @throws {BadRequestError} - If `cursor` is invalid or `limit` is not a positive integer.
+ *
+ * @example
+ * const feed = handler(async (req, res) => {
+ *   const page = cursorPage<number>(req, {secret: process.env.CURSOR_SECRET});
+ *   const posts = await db.posts.after(page.cursor, page.limit + 1);
+ *   const next = posts.length > page.limit ? posts[page.limit - 1].id : undefined;
+ *   return page.paginated(res, posts.slice(0, page.limit), {next});
+ * });
+ */
+export const cursorPage = <T = unknown>(
+  req: Request,
+  options: CursorOptions = {},
+): CursorPage<T> => {
+  const {cursorParam = 'cursor', secret} = options;
+  const raw = req.query[cursorParam];
+  if (raw !== undefined && typeof raw !== 'string')
+    throw new BadRequestError('Invalid cursor', {
+      [cursorParam]: 'Must be a single value',
+    });
+  const cursor = raw ? decodeCursor<T>(raw, secret) : undefined;
+  return new CursorPage(req, cursor, readLimit(req, options), options);
+};
@@ -0,0 +1,182 @@
+import {handler} from './handler';
+import {MemoryStore} from './store';
+import {TooManyRequestsError} from './errors';
+import type {Request, RequestHandler} from 'express';
+import type {
+  RateLimitState,
+  RateLimitOptions,
+  RateLimitAlgorithm,
+} from './types';
+
+/** Outcome of one request against a rate limit. */
+type Decision = {
+  state: RateLimitState; // New state to store
+  allowed: boolean; // Whether the request is allowed
+  remaining: number; // Requests left in the current window
+  reset: number; // Milliseconds until the limit is fully available again
+  retryAfter: number; // Milliseconds until the next request is allowed
+};
+
+/** Applies one request to the previous state of a key. */
+type Algorithm = (
+  state: RateLimitState | undefined,
+  now: number,
+  limit: number,
+  window: number,
+) => Decision;
+
+/**
+ * Rate limit algorithms.
+ *
+ * - `fixed-window`: counts requests per window, resetting at the window end.
+ * - `sliding-window`: weights the previous window's count by its overlap with
+ *   the sliding window, avoiding bursts at window boundaries.
+ * - `token-bucket`: refills `limit` tokens per window, each request takes one.
+ */
+const algorithms: Record<RateLimitAlgorithm, Algorithm> = {
+  'fixed-window': (state, now, limit, window) => {
+    const {count, reset} =
+      state && state.reset > now ? state : {count: 0, reset: now + window};
+    const allowed = count < limit;
+    const used = allowed ? count + 1 : count;
+    return {
+      state: {count: used, reset},
+      allowed,
+      remaining: limit - used,
+      reset: reset - now,
+      retryAfter: allowed ? 0 : reset - now,
+    };
+  },
+  'sliding-window': (state, now, limit, window) => {
+    let {start, count, prev} = state ?? {start: now, count: 0, prev: 0};
+    const elapsed = Math.floor((now - start) / window);
+    if (elapsed > 0) {
+      prev = elapsed === 1 ? count : 0;
+      count = 0;
+      start += elapsed * window;
+    }
+    const weight = 1 - (now - start) / window;
+    const allowed = prev * weight + count < limit;
+    if (allowed) count++;
+    const used = Math.ceil(prev * weight + count);
+    // Wait until enough of the previous (or current) window has slid out
+    const retryAfter =
+      count < limit
+        ? (1 - (limit - count) / prev) * window - (now - start)
+        : start + window - now + (1 - limit / count) * window;
+    return {
+      state: {start, count, prev},
+      allowed,
+      remaining: Math.max(0, limit - used),
+      reset: start + window - now,
+      retryAfter: allowed ? 0 : Math.max(1, Math.ceil(retryAfter)),
+    };
+  },
+  'token-bucket': (state, now, limit, window) => {
+    const rate = limit / window; // Tokens per millisecond
+    const {tokens, updated} = state ?? {tokens: limit, updated: now};
+    const available = Math.min(limit, tokens + (now - updated) * rate);
+    const allowed = available >= 1;
+    const left = allowed ? available - 1 : available;
+    return {
+      state: {tokens: left, updated: now},
+      allowed,
+      remaining: Math.floor(left),
+      reset: Math.ceil((limit - left) / rate),
+      retryAfter: allowed ? 0 : Math.ceil((1 - left) / rate),
+    };
+  },
+};
+
+/**
+ * Gets the client key of a request.
+ * @param {Request} req - The Express request object.
+ * @param {RateLimitOptions['key']} key - `ip`, `user` (`req.user.id`, falling back to the IP) or a function.
+ * @returns {string | Promise<string>} - The client key.
+ */
+const getKey = (
+  req: Request,
+  key: RateLimitOptions['key'],
+): string | Promise<string> => {
+  if (typeof key === 'function') return key(req);
+  const user = key === 'user' ? (req as any).user?.id : undefined;
+  return user !== undefined ? `user:${user}` : `ip:${req.ip}`;
+};
+
+/**
+ * Middleware that limits the request rate of each client.
+ *
+ * - Counts requests per client key (IP, user or a custom function) in a store.
+ * - Sends `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and
+ *   `RateLimit-Policy` headers.
+ * - Rejects requests over the limit with `TooManyRequestsError` (429) and a
+ *   `Retry-After` header, sent by `globalErrorHandler` like any `HttpError`.
+ *
+ * The default store is an in-memory LRU (`MemoryStore`). Pass a shared store
+ * implementing `Store` (e.g. Redis) when running several instances. Shared
+ * stores should implement `update` atomically (e.g. a Lua script), otherwise
+ * concurrent requests of a key race between `get` and `set` and may exceed
+ * the limit; serialize them per key if `update` is missing.
+ *
+ * @param {RateLimitOptions} options - Options for the rate limit.
+ * @param {number} options.limit - Requests allowed per window (bucket size for `token-bucket`).
+ * @param {number} options.window - Window length in milliseconds (full refill time for `token-bucket`).
+ * @param {RateLimitAlgorithm} [options.algorithm='fixed-window'] - `fixed-window`, `sliding-window` or `token-bucket`.
+ * @param {'ip'|'user'|Function} [options.key='ip'] - Client key of a request.
+ * @param {Store} [options.store] - Store of the per-key state. Default is `new MemoryStore()`.
+ * @param {string} [options.prefix='rl:'] - Prefix of store keys.
+ * @param {boolean} [options.headers=true] - Send `RateLimit-*` headers.
+ * @param {(req: Request) => boolean} [options.skip] - Skip limiting for some requests.
+ * @param {BodyMessage} [options.message='Too many requests'] - Error message.
+ * @returns {RequestHandler} - Middleware for rate limiting.
+ *
+ * @example
+ * // 100 requests per minute per IP
+ * app.use('/api', rateLimit({limit: 100, window: 60_000}));
+ *
+ * // Bursts of 10, refilled over 10 seconds, per signed-in user
+ * app.post('/login', rateLimit({limit: 10, window: 10_000, algorithm: 'token-bucket', key: 'user'}));
+ */
+export const rateLimit = (options: RateLimitOptions): RequestHandler => {
+  const {
+    limit,
+    window,
+    algorithm = 'fixed-window',
+    key = 'ip',
+    store = new MemoryStore<RateLimitState>(),
+    prefix = 'rl:',
+    headers = true,
+    skip,
+    message = 'Too many requests',
+  } = options;
+  const apply = algorithms[algorithm];
+  const seconds = (ms: number) => Math.max(0, Math.ceil(ms / 1000));
+
+  return handler(async (req, res, next) => {
+    if (skip?.(req)) return next();
+
+    const id = prefix + (await getKey(req, key));
+    const now = Date.now();
+    let decision!: Decision;
+    const update = (state: RateLimitState | undefined) =>
+      (decision = apply(state, now, limit, window)).state;
+    // Keep the state while it still affects the limit (two sliding windows)
+    const ttl = 2 * window;
+    if (store.update) await store.update(id, update, ttl);
+    else await store.set(id, update(await store.get(id)), ttl);
+
+    if (headers) {
+      res.set({
+        'RateLimit-Limit': String(limit),
+        'RateLimit-Remaining': String(decision.remaining),
+        'RateLimit-Reset': String(seconds(decision.reset)),
+        'RateLimit-Policy': `${limit};w=${seconds(window)}`,
+      });
+    }
+    if (!decision.allowed) {
+      const retryAfter = seconds(decision.retryAfter);
+      throw new TooManyRequestsError(message, {limit, retryAfter}, retryAfter);
+    }
+    next();
+  });
+};
@@ -0,0 +1,346 @@
+import {basename, isAbsolute, relative, resolve, sep} from 'path';
+import {Readable, pipeline} from 'stream';
+import {HttpStatus} from './enums';
+import {
+  HttpError,
+  ForbiddenError,
+  InternalServerError,
+  NotFoundError,
+} from './errors';
+import {formatError} from './envelope';
+import type {NextFunction, Request, Response} from 'express';
+import type {
+  SseEvent,
+  SseSource,
+  SseOptions,
+  ResOptions,
+  FileOptions,
+  StreamOptions,
+} from './types';
+
+/**
+ * Base class for results that write the response themselves.
+ * `handler()` calls `send` instead of serializing the result.
+ */
+export abstract class BaseRes {
+  /**
+   * Writes the result to the response.
+   * @param {Request} req - The Express request object.
+   * @param {Response} res - The Express response object.
+   * @param {NextFunction} next - Forwards errors raised while sending.
+   */
+  abstract send(req: Request, res: Response, next: NextFunction): void;
+}
+
+/**
+ * StreamRes class for streaming a Readable, an async iterable or a Buffer.
+ *
+ * - Respects backpressure by piping the source into the response.
+ * - Sends headers once the first chunk is read: a source failing before that
+ *   (e.g. a missing file) is forwarded to `next` as a normal error response,
+ *   `ENOENT` as `NotFoundError`. Later failures abort the response.
+ *
+ * @example
+ * const exportCsv = handler(() =>
+ *   new StreamRes(createReadStream('report.csv'), {contentType: 'text/csv'}),
+ * );
+ */
+export class StreamRes extends BaseRes {
+  /**
+   * Creates an instance of StreamRes.
+   * @param {Readable | AsyncIterable<any> | Buffer} source - The data to stream.
+   * @param {StreamOptions} [options] - Status, headers and content type.
+   */
+  constructor(
+    readonly source: Readable | AsyncIterable<any> | Buffer,
+    readonly options: StreamOptions = {},
+  ) {
+    super();
+  }
+
+  public send(req: Request, res: Response, next: NextFunction): void {
+    const {
+      status = HttpStatus.OK,
+      headers = {},
+      contentType = 'application/octet-stream',
+    } = this.options;
+    if (Buffer.isBuffer(this.source)) {
+      res.status(status).set(headers).type(contentType).send(this.source);
+      return;
+    }
+
+    const stream =
+      this.source instanceof Readable
+        ? this.source
+        : Readable.from(this.source);
+
+    // Wait for the first chunk before sending headers, so a source that fails
+    // to open (e.g. a missing file) gets an error response, not a reset connection
+    let started = false;
+    const onError = (err: NodeJS.ErrnoException) => {
+      stream.off('readable', start);
+      next(err.code === 'ENOENT' ? new NotFoundError('File not found') : err);
+    };
+    const start = () => {
+      started = true;
+      stream.off('error', onError);
+      res.status(status).set(headers).type(contentType);
+      // From here on a failure can only tear the response down
+      pipeline(stream, res, (err: NodeJS.ErrnoException | null) => {
+        // A premature close means the client went away, nothing to report
+        if (err && err.code !== 'ERR_STREAM_PREMATURE_CLOSE') next(err);
+      });
+    };
+    stream.once('readable', start).once('error', onError);
+    res.once('close', () => {
+      if (!started) stream.destroy();
+    });
+  }
+}
+
+/**
+ * FileRes class for sending a file from disk.
+ *
+ * - Sets `Content-Disposition` as attachment (or inline).
+ * - Supports `Range` requests, `ETag` and `Last-Modified` via `res.sendFile`.
+ * - Only sends files inside `root`, paths escaping it (e.g. `../`) are
+ *   rejected with `ForbiddenError`. Pass user input as a path relative to `root`.
+ *
+ * @example
+ * const download = handler(req =>
+ *   new FileRes(req.params.name, {root: 'uploads', filename: 'invoice.pdf'}),
+ * );
+ */
+export class FileRes extends BaseRes {
+  /**
+   * Creates an instance of FileRes.
+   * @param {string} path - The file path, relative to `root` (or absolute inside `root`).
+   * @param {FileOptions} [options] - Root, disposition, content type and cache options.
+   */
+  constructor(
+    readonly path: string,
+    readonly options: FileOptions = {},
+  ) {
+    super();
+  }
+
+  public send(req: Request, res: Response, next: NextFunction): void {
+    const {
+      filename = basename(this.path),
+      inline = false,
+      contentType,
+      maxAge,
+      headers = {},
+    } = this.options;
+
+    // Keep the path relative so `send` can reject it if it escapes the root
+    const root = resolve(this.options.root ?? '.');
+    const path = isAbsolute(this.path) ? relative(root, this.path) : this.path;
+    const target = relative(root, resolve(root, path));
+    if (
+      target === '..' ||
+      target.startsWith(`..${sep}`) ||
+      isAbsolute(target) ||
+      path.includes('\0')
+    ) {
+      next(new ForbiddenError('Path is outside the root directory'));
+      return;
+    }
+
+    res.attachment(filename);
+    if (inline) {
+      const disposition = res.get('Content-Disposition') ?? '';
+      res.set(
+        'Content-Disposition',
+        disposition.replace(/^attachment/, 'inline'),
+      );
+    }
+    if (contentType) res.type(contentType);
+
+    res.sendFile(path, {root, headers, maxAge}, err => {
+      if (!err) return;
+      if (!res.headersSent) {
+        // Drop file headers so the error body is sent with its own type
+        res.removeHeader('Content-Disposition');
+        res.removeHeader('Content-Type');
+      }
+      const {status} = err as {status?: number};
+      next(
+        status === HttpStatus.NOT_FOUND
+          ? new NotFoundError('File not found')
+          : err,
+      );
+    });
+  }
+}
+
+/**
+ * RedirectRes class for redirecting the client to another URL.
+ *
+ * @example
+ * const legacy = handler(() => new RedirectRes('/v2/users', HttpStatus.MOVED_PERMANENTLY));
+ */
+export class RedirectRes extends BaseRes {
+  /**
+   * Creates an instance of RedirectRes.
+   * @param {string} url - The target URL.
+   * @param {number} [status=302] - The redirect status code.
+   */
+  constructor(
+    readonly url: string,
+    readonly status: number = HttpStatus.FOUND,
+  ) {
+    super();
+  }
+
+  public send(req: Request, res: Response): void {
+    res.redirect(this.status, this.url);
+  }
+}
+
+/**
+ * NoContentRes class for empty responses.
+ *
+ * @example
+ * const remove = handler(async req => {
+ *   await users.delete(req.params.id);
+ *   return new NoContentRes();
+ * });
+ */
+export class NoContentRes extends BaseRes {
+  /**
+   * Creates an instance of NoContentRes.
+   * @param {ResOptions} [options] - Status (default 204) and headers.
+   */
+  constructor(readonly options: ResOptions = {}) {
+    super();
+  }
+
+  public send(req: Request, res: Response): void {
+    const {status = HttpStatus.NO_CONTENT, headers = {}} = this.options;
+    res.status(status).set(headers).end();
+  }
+}
+
+/** Strips line breaks from a single-line SSE field. */
+const toField = (value: string | number): string =>
+  String(value).replace(/[\r\n]/g, '');
+
+/**
+ * Serializes a Server-Sent Event into its `text/event-stream` wire format.
+ * @param {SseEvent | string} value - The event, or a string sent as data.
+ * @returns {string} - The serialized event, terminated by a blank line.
+ */
+const formatEvent = (value: SseEvent | string): string => {
+  const {data, event, id, retry}: SseEvent =
+    typeof value === 'string' ? {data: value} : value;
+  let chunk = '';
+  // Line breaks would start new fields
+  if (event) chunk += `event: ${toField(event)}\n`;
+  if (id !== undefined) chunk += `id: ${toField(id)}\n`;
+  if (retry !== undefined) chunk += `retry: ${retry}\n`;
+  if (data !== undefined) {
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    for (const line of text.split(/\r?\n/)) chunk += `data: ${line}\n`;
+  }
+  return `${chunk}\n`;
+};
+
+/**
+ * SseRes class for streaming Server-Sent Events from an async iterable.
+ *
+ * - Sends `text/event-stream` headers and periodic heartbeat comments.
+ * - Passes the `Last-Event-ID` header to a source factory to resume the stream.
+ * - Calls the iterator's `return()` when the client disconnects.
+ * - Emits errors thrown by the source as an `error` event and passes them to `write`.
+ *
+ * Returning an async generator from `handler()` is a shorthand for `new SseRes(generator)`.
+ *
+ * @example
+ * const progress = handler(req =>
+ *   new SseRes(async function* (lastEventId) {
+ *     for await (const step of job.watch(req.params.id, lastEventId))
+ *       yield {event: 'progress', id: step.id, data: step};
+ *   }),
+ * );
+ */
+export class SseRes extends BaseRes {
+  /**
+   * Creates an instance of SseRes.
+   * @param {SseSource} source - The events, or a factory receiving the `Last-Event-ID`.
+   * @param {SseOptions} [options] - Heartbeat, retry, headers and error logger.
+   */
+  constructor(
+    readonly source: SseSource,
+    readonly options: SseOptions = {},
+  ) {
+    super();
+  }
+
+  public send(req: Request, res: Response): void {
+    const {heartbeat = 15000, retry, headers = {}, write} = this.options;
+    const source =
+      typeof this.source === 'function'
+        ? this.source(req.get('Last-Event-ID'))
+        : this.source;
+    const iterator = source[Symbol.asyncIterator]();
+
+    res
+      .status(HttpStatus.OK)
+      .set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+        ...headers,
+      })
+      .flushHeaders();
+    if (retry !== undefined) res.write(formatEvent({retry}));
+
+    let closed = false;
+    const timer = heartbeat
+      ? setInterval(() => res.write(': heartbeat\n\n'), heartbeat)
+      : undefined;
+
+    // Stop the source when the client goes away
+    res.once('close', () => {
+      closed = true;
+      clearInterval(timer);
+      iterator.return?.().catch(() => {});
+    });
+
+    /** Writes a chunk, waiting for `drain` (or close) when the buffer is full. */
+    const push = async (chunk: string) => {
+      if (res.write(chunk)) return;
+      await new Promise<void>(resolve => {
+        // Only one of them fires, the other must not pile up
+        const done = () => {
+          res.off('drain', done).off('close', done);
+          resolve();
+        };
+        res.once('drain', done).once('close', done);
+      });
+    };
+
+    const run = async () => {
+      try {
+        while (!closed) {
+          const {value, done} = await iterator.next();
+          if (done || closed) break;
+          await push(formatEvent(value));
+        }
+      } catch (err) {
+        write?.(err);
+        if (closed) return;
+        const error = HttpError.isHttpError(err)
+          ? err
+          : new InternalServerError('Something went wrong');
+        res.write(formatEvent({event: 'error', data: formatError(error, req)}));
+      } finally {
+        clearInterval(timer);
+        if (!closed) res.end();
+      }
+    };
+    void run();
+  }
+}
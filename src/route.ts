@@ -0,0 +1,90 @@
+import {schemaHandler} from './validate';
+import type {Router} from 'express';
+import type {ApiRes} from './api-res';
+import type {
+  RouteDef,
+  RouteDocs,
+  ReqHandler,
+  RouteMethod,
+  RouteOutput,
+  SchemaOptions,
+  HttpErrorClass,
+  RequestSchemas,
+  SchemaReqHandler,
+} from './types';
+
+/**
+ * Defines a typed route contract: method, path, input schemas, result schema
+ * and the `HttpError` classes the route can throw. The same contract is
+ * implemented on the server with `registerRoute` and called with `createClient`.
+ *
+ * @param {object} def - The route definition.
+ * @param {RouteMethod} def.method - The HTTP method.
+ * @param {string} def.path - The route path (e.g. `/users/:id`).
+ * @param {RequestSchemas} [def.schemas] - Schemas of `params`, `query`, `body`, `headers` and `result`.
+ * @param {HttpErrorClass[]} [def.errors] - HttpError classes the route can throw.
+ * @param {string} [def.summary] - Summary, `description`, `tags`, success `status` and `deprecated` flag for OpenAPI.
+ * @returns {RouteDef} - The route contract.
+ *
+ * @example
+ * export const getUser = defineRoute({
+ *   method: 'get',
+ *   path: '/users/:id',
+ *   schemas: {params: z.object({id: z.string()}), result: UserSchema},
+ *   errors: [NotFoundError],
+ * });
+ */
+export const defineRoute = <
+  M extends RouteMethod,
+  P extends string,
+  S extends RequestSchemas = Record<never, never>,
+  const E extends readonly HttpErrorClass[] = [],
+>(
+  def: {
+    method: M;
+    path: P;
+    schemas?: S;
+    errors?: E;
+  } & RouteDocs,
+): RouteDef<M, P, S, E> => ({
+  ...def,
+  schemas: def.schemas ?? ({} as S),
+  errors: def.errors ?? ([] as unknown as E),
+});
+
+/**
+ * Implements a route contract as a handler that validates the request parts
+ * and must return an `ApiRes` of the contract's result type.
+ *
+ * @param {RouteDef} route - The route contract.
+ * @param {SchemaReqHandler} func - The route handler receiving the parsed input.
+ * @param {SchemaOptions} [options] - Validation options, see `schemaHandler`.
+ * @returns {ReqHandler} - The wrapped handler.
+ */
+export const routeHandler = <R extends RouteDef>(
+  route: R,
+  func: SchemaReqHandler<R['schemas'], ApiRes<RouteOutput<R>>>,
+  options?: SchemaOptions,
+): ReqHandler<void> => schemaHandler(route.schemas, func, options);
+
+/**
+ * Registers the implementation of a route contract on a router.
+ *
+ * @param {Router} router - The Express router.
+ * @param {RouteDef} route - The route contract.
+ * @param {SchemaReqHandler} func - The route handler receiving the parsed input.
+ * @param {SchemaOptions} [options] - Validation options, see `schemaHandler`.
+ * @returns {Router} - The same router, for chaining.
+ *
+ * @example
+ * registerRoute(router, getUser, async ({params}) =>
+ *   ApiRes.ok(await users.get(params.id)),
+ * );
+ */
+export const registerRoute = <R extends RouteDef>(
+  router: Router,
+  route: R,
+  func: SchemaReqHandler<R['schemas'], ApiRes<RouteOutput<R>>>,
+  options?: SchemaOptions,
+): Router =>
+  router[route.method](route.path, routeHandler(route, func, options));
@@ -0,0 +1,213 @@
+import {NotAcceptableError} from './errors';
+import type {Request, Response} from 'express';
+import type {Serializer} from './types';
+
+/**
+ * Escapes a value for a CSV cell (RFC 4180).
+ * @param {unknown} value - The cell value.
+ * @returns {string} - The escaped cell.
+ */
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Gets the rows of a response body: an array `result` or the `data` of `ApiRes.paginated`.
+ * Envelopes that put the result under `data` (see `registerEnvelope`) are read too.
+ * @param {any} body - The response body.
+ * @returns {unknown[] | undefined} - The rows, or undefined if the body has none.
+ */
+const csvRows = (body: any): unknown[] | undefined => {
+  const result = body?.result ?? body?.data;
+  if (Array.isArray(result)) return result;
+  if (Array.isArray(result?.data)) return result.data;
+  return undefined;
+};
+
+/**
+ * Converts a value to an XML element, arrays become repeated `<item>` children.
+ * @param {string} name - The element name.
+ * @param {unknown} value - The element value.
+ * @returns {string} - The XML element.
+ */
+const xmlElement = (name: string, value: unknown): string => {
+  // Replace characters that are not allowed in XML names
+  const tag = name.replace(/[^\w.-]/g, '_').replace(/^(?=[\d.-])/, '_');
+  if (value === null || value === undefined) return `<${tag}/>`;
+  if (Array.isArray(value))
+    return `<${tag}>${value.map(item => xmlElement('item', item)).join('')}</${tag}>`;
+  if (typeof value === 'object') {
+    const children = Object.entries(value).map(([key, val]) =>
+      xmlElement(key, val),
+    );
+    return `<${tag}>${children.join('')}</${tag}>`;
+  }
+  const text = String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return `<${tag}>${text}</${tag}>`;
+};
+
+/** Serializes bodies as JSON, sent through `res.json` to honour app settings. */
+const jsonSerializer: Serializer = {
+  type: 'application/json',
+  serialize: body => JSON.stringify(body),
+};
+
+/** Serializes array results and paginated data as CSV with a header row. */
+const csvSerializer: Serializer = {
+  type: 'text/csv',
+  accepts: body => csvRows(body) !== undefined,
+  serialize: body => {
+    const rows = csvRows(body) ?? [];
+    const isObject = (row: unknown): row is object =>
+      typeof row === 'object' && row !== null;
+    // Collect the columns in order of first appearance
+    const columns = [
+      ...new Set(rows.flatMap(row => (isObject(row) ? Object.keys(row) : []))),
+    ];
+    if (!columns.length) return ['value', ...rows.map(csvCell)].join('\r\n');
+    const lines = rows.map(row =>
+      columns
+        .map(col => csvCell(isObject(row) ? (row as any)[col] : undefined))
+        .join(','),
+    );
+    return [columns.map(csvCell).join(','), ...lines].join('\r\n');
+  },
+};
+
+/**
+ * Serializes bodies as XML under a `<response>` root element.
+ * Opt-in, browsers list `application/xml` in their default `Accept` header.
+ *
+ * @example
+ * registerSerializer(xmlSerializer);
+ */
+export const xmlSerializer: Serializer = {
+  type: 'application/xml',
+  serialize: body =>
+    `<?xml version="1.0" encoding="UTF-8"?>${xmlElement('response', body)}`,
+};
+
+/** Registered serializers, in order of preference for equal qualities. */
+const serializers: Serializer[] = [jsonSerializer, csvSerializer];
+
+/**
+ * Gets the quality of a media type from its most specific range in an `Accept` header.
+ * @param {string} accept - The `Accept` header.
+ * @param {string} type - The media type, e.g. `text/csv`.
+ * @returns {number} - The quality between 0 and 1, 0 if no range matches.
+ */
+const quality = (accept: string, type: string): number => {
+  const [main] = type.split('/');
+  let specificity = -1;
+  let q = 0;
+  for (const part of accept.toLowerCase().split(',')) {
+    const [range, ...params] = part.split(';').map(item => item.trim());
+    // Exact type over `type/*` over `*/*`
+    const match =
+      range === type ? 2 : range === `${main}/*` ? 1 : range === '*/*' ? 0 : -1;
+    if (match <= specificity) continue;
+    specificity = match;
+    const value = params.find(param => param.startsWith('q='));
+    q = value ? Number(value.slice(2)) || 0 : 1;
+  }
+  return Math.min(Math.max(q, 0), 1);
+};
+
+/**
+ * Registers a serializer for content negotiation, replacing any serializer of the same type.
+ *
+ * @param {Serializer} serializer - The serializer to register.
+ *
+ * @example
+ * registerSerializer(xmlSerializer); // enable the built-in XML format
+ *
+ * import {encode} from '@msgpack/msgpack';
+ *
+ * registerSerializer({
+ *   type: 'application/msgpack',
+ *   serialize: body => Buffer.from(encode(body)),
+ * });
+ */
+export const registerSerializer = (serializer: Serializer): void => {
+  const index = serializers.findIndex(({type}) => type === serializer.type);
+  if (index === -1) serializers.push(serializer);
+  else serializers[index] = serializer;
+};
+
+/**
+ * Picks the serializer that best matches the request `Accept` header.
+ * JSON stays the default: another type is only picked when its quality is
+ * higher than JSON's, so wildcards and low-q entries never displace it.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {unknown} body - The body to serialize.
+ * @returns {Serializer | undefined} - The serializer, or undefined if none is acceptable.
+ */
+export const negotiate = (
+  req: Request,
+  body: unknown,
+): Serializer | undefined => {
+  const candidates = serializers.filter(({accepts}) => accepts?.(body) ?? true);
+  const accept = req.get('Accept');
+  if (!accept) return candidates[0];
+  // Earlier registrations win ties
+  let best: Serializer | undefined;
+  let bestQ = 0;
+  for (const serializer of candidates) {
+    const q = quality(accept, serializer.type.toLowerCase());
+    if (q > bestQ) [best, bestQ] = [serializer, q];
+  }
+  return best;
+};
+
+/**
+ * Picks the serializer for a body, throwing when the client accepts none.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {unknown} body - The body to serialize.
+ * @param {boolean} [fallback=false] - Use JSON instead of throwing if nothing is acceptable.
+ * @returns {Serializer} - The serializer.
+ * @throws {NotAcceptableError} - A 406 error if no serializer is acceptable and `fallback` is false.
+ */
+export const selectSerializer = (
+  req: Request,
+  body: unknown,
+  fallback: boolean = false,
+): Serializer => {
+  const serializer = negotiate(req, body);
+  if (serializer) return serializer;
+  if (fallback) return jsonSerializer;
+  const types = serializers
+    .filter(({accepts}) => accepts?.(body) ?? true)
+    .map(({type}) => type);
+  throw new NotAcceptableError('Not Acceptable', {types});
+};
+
+/**
+ * Sends a body in the format negotiated from the `Accept` header.
+ *
+ * @param {Request} req - The Express request object.
+ * @param {Response} res - The Express response object.
+ * @param {number} status - The HTTP status code.
+ * @param {unknown} body - The body to send.
+ * @param {boolean} [fallback=false] - Send JSON instead of throwing if nothing is acceptable.
+ * @throws {NotAcceptableError} - A 406 error if no serializer is acceptable and `fallback` is false.
+ */
+export const sendNegotiated = (
+  req: Request,
+  res: Response,
+  status: number,
+  body: unknown,
+  fallback: boolean = false,
+): void => {
+  const serializer = selectSerializer(req, body, fallback);
+  res.status(status).vary('Accept');
+  if (serializer === jsonSerializer) res.json(body);
+  else res.type(serializer.type).send(serializer.serialize(body));
+};
@@ -0,0 +1,86 @@
+import type {Store} from './types';
+
+/**
+ * In-memory key-value store with per-entry expiry and least-recently-used
+ * eviction, the default store of `rateLimit` and `idempotency`.
+ *
+ * Entries live in a single process. Use a shared store implementing `Store`
+ * (e.g. backed by Redis) when running several instances.
+ *
+ * @template T - The type of the stored values.
+ *
+ * @example
+ * const store = new MemoryStore<RateLimitState>(50_000);
+ */
+export class MemoryStore<T> implements Store<T> {
+  private readonly entries = new Map<string, {value: T; expires: number}>();
+
+  /**
+   * @param {number} [max=10000] - Maximum number of entries before the least recently used is evicted.
+   */
+  constructor(readonly max: number = 10_000) {}
+
+  /**
+   * Gets a value, refreshing its recency.
+   * @param {string} key - The entry key.
+   * @returns {T | undefined} - The value, or undefined if missing or expired.
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) return undefined;
+    // Re-insert to mark the entry as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Sets a value, evicting the least recently used entry when full.
+   * @param {string} key - The entry key.
+   * @param {T} value - The value to store.
+   * @param {number} ttl - Time to live in milliseconds.
+   */
+  set(key: string, value: T, ttl: number): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.max) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) this.entries.delete(oldest.value);
+    }
+    this.entries.set(key, {value, expires: Date.now() + ttl});
+  }
+
+  /**
+   * Sets a value only if the key is missing or expired.
+   * @param {string} key - The entry key.
+   * @param {T} value - The value to store.
+   * @param {number} ttl - Time to live in milliseconds.
+   * @returns {boolean} - True if the value was set.
+   */
+  add(key: string, value: T, ttl: number): boolean {
+    if (this.get(key) !== undefined) return false;
+    this.set(key, value, ttl);
+    return true;
+  }
+
+  /**
+   * Replaces a value with the result of `fn`, atomically as it runs synchronously.
+   * @param {string} key - The entry key.
+   * @param {(value: T | undefined) => T} fn - Computes the new value from the current one.
+   * @param {number} ttl - Time to live in milliseconds.
+   * @returns {T} - The new value.
+   */
+  update(key: string, fn: (value: T | undefined) => T, ttl: number): T {
+    const value = fn(this.get(key));
+    this.set(key, value, ttl);
+    return value;
+  }
+
+  /**
+   * Deletes a value.
+   * @param {string} key - The entry key.
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
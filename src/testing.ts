@@ -0,0 +1,394 @@
+import assert from 'assert';
+import {Socket} from 'net';
+import express from 'express';
+import {IncomingMessage, ServerResponse} from 'http';
+import {HttpError} from './errors';
+import type {Request, Response} from 'express';
+import type {
+  TestResult,
+  TestResponse,
+  InvokeOptions,
+  HttpErrorClass,
+  ApiResExpectation,
+  TestRequestOptions,
+  HttpErrorExpectation,
+} from './types';
+
+export type {
+  TestResult,
+  TestResponse,
+  InvokeOptions,
+  ApiResExpectation,
+  TestRequestOptions,
+  HttpErrorExpectation,
+} from './types';
+
+/** Any middleware, error-handling middleware has four parameters. */
+type Handler = (...args: any[]) => unknown;
+
+/** Body chunks written to fake responses. */
+const bodies = new WeakMap<Response, Buffer[]>();
+
+/**
+ * Converts a written chunk to a buffer.
+ * @param {unknown} chunk - The chunk passed to `write` or `end`.
+ * @param {unknown} encoding - The encoding of string chunks.
+ * @returns {Buffer} - The chunk as a buffer.
+ */
+const toBuffer = (chunk: unknown, encoding: unknown): Buffer =>
+  Buffer.isBuffer(chunk)
+    ? chunk
+    : chunk instanceof Uint8Array
+      ? Buffer.from(chunk)
+      : Buffer.from(
+          String(chunk),
+          typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8',
+        );
+
+/**
+ * Creates a fake request/response pair that runs Express request and response
+ * methods (`req.get`, `res.json`, `res.sendFile`, ...) without opening a socket.
+ * The response records its status, headers and body, read with `readResponse`.
+ *
+ * @param {TestRequestOptions} [options] - The request to fake.
+ * @param {string} [options.method='GET'] - HTTP method.
+ * @param {string} [options.url='/'] - Request URL with query string.
+ * @param {Record<string, string>} [options.headers] - Request headers.
+ * @param {Record<string, unknown>} [options.query] - Parsed query, default parsed from `url`.
+ * @param {Record<string, string>} [options.params] - Route parameters.
+ * @param {unknown} [options.body] - Parsed body, sent as JSON unless a content type is given.
+ * @param {Record<string, unknown>} [options.props] - Extra request properties, e.g. `user`.
+ * @param {Express} [options.app] - App whose settings are used, default a new app.
+ * @returns {{req: Request, res: Response}} - The fake request and response.
+ *
+ * @example
+ * const {req, res} = createMocks({method: 'POST', body: {name: 'Alice'}});
+ * await createUser(req, res, next);
+ * readResponse(res).status; // 201
+ */
+export const createMocks = (
+  options: TestRequestOptions = {},
+): {req: Request; res: Response} => {
+  const {
+    method = 'GET',
+    url = '/',
+    headers = {},
+    params = {},
+    body,
+    props = {},
+    app = express(),
+  } = options;
+
+  const req = new IncomingMessage(new Socket()) as any;
+  req.method = method.toUpperCase();
+  req.url = req.originalUrl = url;
+  req.baseUrl = '';
+  req.headers = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+  if (body !== undefined) {
+    req.headers['content-type'] ??= 'application/json';
+    // A body needs a length for `req.is()` and body checks
+    req.headers['content-length'] ??= String(
+      Buffer.byteLength(
+        typeof body === 'string' ? body : (JSON.stringify(body) ?? ''),
+      ),
+    );
+  }
+  const search = url.includes('?') ? url.slice(url.indexOf('?') + 1) : '';
+  const parse = app.get('query parser fn');
+  // Own properties, as `query` is a getter in Express 5
+  Object.defineProperties(req, {
+    query: {
+      value: options.query ?? (parse ? parse(search) : {}),
+      writable: true,
+      configurable: true,
+      enumerable: true,
+    },
+  });
+  req.params = params;
+  req.body = body;
+  Object.assign(req, props);
+
+  const res = new ServerResponse(req) as any;
+  const chunks: Buffer[] = [];
+  bodies.set(res, chunks);
+  res.write = (chunk: unknown, encoding?: unknown, cb?: () => void) => {
+    if (typeof encoding === 'function') cb = encoding as () => void;
+    if (!res.headersSent) res._implicitHeader();
+    if (chunk != null) chunks.push(toBuffer(chunk, encoding));
+    if (cb) process.nextTick(cb);
+    return true;
+  };
+  res.end = (chunk?: unknown, encoding?: unknown, cb?: () => void) => {
+    if (typeof chunk === 'function') [chunk, cb] = [undefined, chunk as any];
+    if (typeof encoding === 'function') cb = encoding as () => void;
+    if (res.writableEnded) return res;
+    if (!res.headersSent) res._implicitHeader();
+    if (chunk != null && req.method !== 'HEAD')
+      chunks.push(toBuffer(chunk, encoding));
+    res.finished = true;
+    process.nextTick(() => {
+      res.emit('prefinish');
+      res.emit('finish');
+      cb?.();
+      res.emit('close');
+    });
+    return res;
+  };
+
+  // Link the pair like Express' own `init` middleware
+  Object.setPrototypeOf(req, app.request);
+  Object.setPrototypeOf(res, app.response);
+  req.res = res;
+  res.req = req;
+  res.locals = Object.create(null);
+  return {req, res};
+};
+
+/**
+ * Reads the status, headers and body recorded by a fake response.
+ * JSON bodies (`application/json`, `application/problem+json`, ...) are parsed.
+ *
+ * @param {Response} res - A response created by `createMocks`.
+ * @returns {TestResponse} - The recorded response.
+ * @throws {Error} - If the response was not created by `createMocks`.
+ */
+export const readResponse = (res: Response): TestResponse => {
+  const chunks = bodies.get(res);
+  if (!chunks) throw new Error('Response was not created by createMocks().');
+  const text = Buffer.concat(chunks).toString('utf8');
+  let body: unknown = text;
+  if (/[/+]json\b/.test(String(res.get('Content-Type'))) && text) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Leave malformed JSON as text so assertions can show it
+    }
+  }
+  return {
+    status: res.statusCode,
+    headers: res.getHeaders(),
+    text,
+    body,
+    ended: res.writableEnded,
+  };
+};
+
+/**
+ * Runs middleware against a fake request, like an Express route without a
+ * server. Handlers run in order: `next()` continues with the next handler and
+ * `next(err)` with the next error-handling one (four parameters).
+ *
+ * Resolves when the response ends or the last handler calls `next`, so
+ * `next(err)` of a `handler()` without `globalErrorHandler` is returned as `error`.
+ *
+ * @param {Handler | Handler[]} handlers - The middleware, e.g. `handler()`, `proxyWrapper` methods or `globalErrorHandler()`.
+ * @param {InvokeOptions} [options] - The request to fake (see `createMocks`), plus:
+ * @param {unknown} [options.error] - Error passed to the first error-handling middleware.
+ * @param {number} [options.timeout=2000] - Milliseconds before the returned promise rejects.
+ * @returns {Promise<TestResult>} - The recorded response, the pair and the `next` call.
+ * @throws {Error} - If no handler ends the response or calls `next` in time.
+ *
+ * @example
+ * const result = await invoke(users.getById, {params: {id: '1'}});
+ * expectApiRes(result, {status: 200, result: {id: '1', name: 'Alice'}});
+ *
+ * const failed = await invoke([users.getById, globalErrorHandler({isDev: false})], {params: {id: 'x'}});
+ * expectHttpError(failed, NotFoundError, {message: 'User not found'});
+ */
+export const invoke = (
+  handlers: Handler | Handler[],
+  options: InvokeOptions = {},
+): Promise<TestResult> => {
+  const {error, timeout = 2000, ...rest} = options;
+  const stack = Array.isArray(handlers) ? handlers : [handlers];
+  const {req, res} = createMocks(rest);
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () =>
+        reject(
+          new Error(
+            `Handler did not respond or call next within ${timeout}ms.`,
+          ),
+        ),
+      timeout,
+    );
+    let settled = false;
+    const settle = (nextCalled: boolean, err?: unknown) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      const result: TestResult = {...readResponse(res), req, res, nextCalled};
+      if (err !== undefined) result.error = err;
+      resolve(result);
+    };
+    res.once('finish', () => settle(false));
+
+    // Dispatch like an Express router: error handlers only receive errors
+    const run = (index: number, err?: unknown) => {
+      const layer = stack[index];
+      if (!layer) return settle(true, err);
+      const isErrorHandler = layer.length === 4;
+      if (isErrorHandler !== (err !== undefined)) return run(index + 1, err);
+      const next = (value?: unknown) =>
+        run(index + 1, value === 'route' ? undefined : value);
+      try {
+        if (isErrorHandler) layer(err, req, res, next);
+        else layer(req, res, next);
+      } catch (thrown) {
+        run(index + 1, thrown);
+      }
+    };
+    run(0, error);
+  });
+};
+
+/**
+ * Describes a value in assertion messages.
+ * @param {unknown} value - The value.
+ * @returns {string} - The description.
+ */
+const describe = (value: unknown): string =>
+  value instanceof Error
+    ? `${value.name}: ${value.message}`
+    : JSON.stringify(value);
+
+/**
+ * Asserts that an `invoke` result is an `ApiRes` body (`{status, message, result}`).
+ * Bodies reshaped with `registerEnvelope` don't match.
+ *
+ * @param {TestResult} actual - The result of `invoke`.
+ * @param {ApiResExpectation} [expected] - Expected status, message and result (compared deeply).
+ * @throws {AssertionError} - If the body doesn't match.
+ *
+ * @example
+ * expectApiRes(await invoke(users.create, {method: 'POST', body}), {status: 201});
+ */
+export const expectApiRes = (
+  actual: TestResult,
+  expected: ApiResExpectation = {},
+): void => {
+  if (actual.error !== undefined)
+    assert.fail(
+      `Expected an ApiRes body, but next was called with ${describe(actual.error)}`,
+    );
+  const body = actual.body as any;
+  assert.ok(
+    body && typeof body === 'object' && 'result' in body && 'message' in body,
+    `Expected an ApiRes body, got ${describe(actual.body)}`,
+  );
+  assert.strictEqual(
+    body.status,
+    actual.status,
+    'Body status differs from the response status',
+  );
+  if (expected.status !== undefined)
+    assert.strictEqual(actual.status, expected.status, 'Unexpected status');
+  if (expected.message !== undefined)
+    assert.strictEqual(body.message, expected.message, 'Unexpected message');
+  if ('result' in expected)
+    assert.deepStrictEqual(body.result, expected.result, 'Unexpected result');
+};
+
+/**
+ * Asserts that an `invoke` result is an `HttpError`: either the error passed
+ * to `next`, or the body sent by `globalErrorHandler` (JSON or problem details).
+ *
+ * @param {TestResult} actual - The result of `invoke`.
+ * @param {number | HttpErrorClass} expected - Expected status, or error class.
+ * @param {HttpErrorExpectation} [fields] - Expected message, code and detail (compared deeply).
+ * @throws {AssertionError} - If the error doesn't match.
+ *
+ * @example
+ * expectHttpError(await invoke(users.getById, {params: {id: 'x'}}), NotFoundError);
+ * expectHttpError(result, HttpStatus.CONFLICT, {code: 'EMAIL_TAKEN'});
+ */
+export const expectHttpError = (
+  actual: TestResult,
+  expected: number | HttpErrorClass,
+  fields: HttpErrorExpectation = {},
+): void => {
+  const status =
+    typeof expected === 'number' ? expected : new expected('').status;
+  let found: {
+    status: number;
+    message: unknown;
+    code?: unknown;
+    detail?: unknown;
+  };
+
+  if (actual.error !== undefined) {
+    const error = actual.error;
+    assert.ok(
+      HttpError.isHttpError(error),
+      `Expected an HttpError, but next was called with ${describe(error)}`,
+    );
+    if (typeof expected === 'function')
+      assert.ok(
+        error instanceof expected,
+        `Expected ${expected.name}, got ${error.name}`,
+      );
+    found = {...error, message: error.msg};
+  } else {
+    const body = actual.body as any;
+    assert.ok(
+      body && typeof body === 'object' && 'status' in body,
+      `Expected an HttpError body, got ${describe(actual.body)}`,
+    );
+    assert.strictEqual(
+      body.status,
+      actual.status,
+      'Body status differs from the response status',
+    );
+    // Problem details carry the message in `detail` (or `messages`)
+    const isProblem = 'title' in body && 'type' in body;
+    found = isProblem
+      ? {...body, message: body.messages ?? body.detail, detail: body.errors}
+      : body;
+  }
+
+  assert.strictEqual(found.status, status, 'Unexpected status');
+  if (fields.message !== undefined)
+    assert.deepStrictEqual(found.message, fields.message, 'Unexpected message');
+  if (fields.code !== undefined)
+    assert.strictEqual(found.code, fields.code, 'Unexpected code');
+  if ('detail' in fields)
+    assert.deepStrictEqual(found.detail, fields.detail, 'Unexpected detail');
+};
+
+/**
+ * Runs an assertion as a Jest/Vitest matcher result.
+ * @param {() => void} assertion - The assertion.
+ * @returns {{pass: boolean, message: () => string}} - The matcher result.
+ */
+const toMatcher = (assertion: () => void) => {
+  try {
+    assertion();
+    return {pass: true, message: () => 'Expected the result not to match'};
+  } catch (error) {
+    if (!(error instanceof assert.AssertionError)) throw error;
+    return {pass: false, message: () => error.message};
+  }
+};
+
+/**
+ * Matchers for `expect.extend` of Jest or Vitest, wrapping `expectApiRes`
+ * and `expectHttpError` (negation with `.not` included).
+ *
+ * @example
+ * expect.extend(testingMatchers);
+ *
+ * expect(await invoke(users.list)).toBeApiRes({status: 200});
+ * expect(await invoke(users.getById, {params: {id: 'x'}})).toBeHttpError(NotFoundError);
+ */
+export const testingMatchers = {
+  toBeApiRes: (actual: TestResult, expected?: ApiResExpectation) =>
+    toMatcher(() => expectApiRes(actual, expected)),
+  toBeHttpError: (
+    actual: TestResult,
+    expected: number | HttpErrorClass,
+    fields?: HttpErrorExpectation,
+  ) => toMatcher(() => expectHttpError(actual, expected, fields)),
+};
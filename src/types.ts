@@ -1,5 +1,14 @@
 import type {HttpStatus} from './enums';
-import type {Request, Response, NextFunction} from 'express';
+import type {HttpError} from './errors';
+import type {ApiRes} from './api-res';
+import type {Container, InjectionToken} from './container';
+import type {
+  Express,
+  Request,
+  Response,
+  NextFunction,
+  RequestHandler,
+} from 'express';
 
 // Extracts the value type of an object type
 export type ValueOf<T> = T[keyof T];
@@ -19,15 +28,150 @@ export interface HttpErrorBody {
   detail?: any; // Optional detailed information about the error
   status: number; // HTTP status code
   message: BodyMessage; // Message describing the error
+  code?: string; // Application-specific error code
+  cause?: ErrorCause[]; // Cause chain, only sent in dev mode
+  requestId?: string; // Request correlation id
 }
 
+// Define a single entry of an error cause chain, rendered in dev mode
+export interface ErrorCause {
+  name: string; // Error name
+  message: string; // Error message
+  stack?: string; // Stack trace
+}
+
+// Define a constructor of an HttpError subclass taking `(message, detail?)`
+export type HttpErrorClass = new (
+  message: BodyMessage,
+  detail?: object,
+  ...args: any[]
+) => HttpError;
+
+// Define a predicate or error class matched by an error mapper
+export type ErrorMatcher =
+  | (abstract new (...args: any[]) => Error)
+  | ((error: unknown) => boolean);
+
+// Define a function that converts a matched error into an HttpError
+export type ErrorMapper<E = any> = (error: E) => HttpError;
+
+// Define the structure of an RFC 9457 problem details body
+export interface ProblemDetails {
+  type: string; // URI reference identifying the problem type
+  title: string; // Short, human-readable summary of the problem type
+  status: number; // HTTP status code
+  detail?: string; // Human-readable explanation of this occurrence
+  instance?: string; // URI reference identifying this occurrence
+  [extension: string]: unknown; // Extension members
+}
+
+// Define the options used to build problem details
+export type ProblemOptions = {
+  typeBase?: string; // Base URI for the `type` member, `about:blank` if omitted
+  instance?: string; // URI reference of the request that caused the problem
+};
+
 // Define the structure of the HTTP response body
-export interface HttpResBody {
+export interface HttpResBody<T = any> {
   status: number; // HTTP status code
   message: string; // Response message
-  result: any; // The result of the request
+  result: T; // The result of the request
+  requestId?: string; // Request correlation id
 }
 
+// Define a response body serializer used for content negotiation
+export interface Serializer {
+  type: string; // Media type, e.g. `text/csv`
+  serialize: (body: any) => string | Buffer; // Converts the body to the media type
+  accepts?: (body: any) => boolean; // Whether this body can be serialized, default always
+}
+
+// Define the options shared by offset and cursor pagination
+export type PageOptions = {
+  defaultLimit?: number; // Limit used when the query has none, default 20
+  maxLimit?: number; // Larger limits are clamped to this value, default 100
+  limitParam?: string; // Query parameter of the limit, default `limit`
+};
+
+// Define the options of offset pagination
+export type OffsetOptions = PageOptions & {
+  pageParam?: string; // Query parameter of the page, default `page`
+};
+
+// Define the options of cursor pagination
+export type CursorOptions = PageOptions & {
+  cursorParam?: string; // Query parameter of the cursor, default `cursor`
+  secret?: string; // HMAC secret used to sign cursors, unsigned if omitted
+};
+
+// Define the pagination metadata of offset pagination
+export type OffsetMeta = {
+  total: number; // Total number of items
+  page: number; // Current page, starting at 1
+  limit: number; // Items per page
+  pages: number; // Total number of pages
+  hasNext: boolean; // Whether a next page exists
+  hasPrev: boolean; // Whether a previous page exists
+};
+
+// Define the pagination metadata of cursor pagination
+export type CursorMeta = {
+  limit: number; // Items per page
+  hasNext: boolean; // Whether a next page exists
+  nextCursor: string | null; // Encoded cursor of the next page
+  prevCursor: string | null; // Encoded cursor of the previous page
+};
+
+// Define the validators of a resource, used by conditional requests
+export type ConditionalValidators = {
+  etag?: string; // Entity tag, quoted or not (e.g. a row version)
+  weak?: boolean; // Mark an unquoted `etag` as weak
+  lastModified?: Date | string | number; // Last modification time
+  required?: boolean; // Require `If-Match` or `If-Unmodified-Since` on writes
+};
+
+// Define the options shared by non-JSON result types
+export type ResOptions = {
+  status?: number; // HTTP status code, default 200
+  headers?: Record<string, string>; // Extra response headers
+};
+
+// Define the options of a streamed result
+export type StreamOptions = ResOptions & {
+  contentType?: string; // Content-Type, default `application/octet-stream`
+};
+
+// Define the options of a file result
+export type FileOptions = {
+  root?: string; // Directory the file must be inside, default the working directory
+  filename?: string; // Name in `Content-Disposition`, default the file name
+  inline?: boolean; // Use `inline` instead of `attachment` disposition
+  contentType?: string; // Content-Type, default from the file extension
+  maxAge?: number | string; // Cache-Control max-age (ms or `ms` string)
+  headers?: Record<string, string>; // Extra response headers
+};
+
+// Define a single Server-Sent Event
+export type SseEvent = {
+  data?: unknown; // Event payload, non-strings are sent as JSON
+  event?: string; // Event name
+  id?: string | number; // Event id, echoed back as `Last-Event-ID` on reconnect
+  retry?: number; // Reconnection time in milliseconds
+};
+
+// Define the source of Server-Sent Events, strings are sent as data
+export type SseSource =
+  | AsyncIterable<SseEvent | string>
+  | ((lastEventId?: string) => AsyncIterable<SseEvent | string>);
+
+// Define the options of a Server-Sent Events result
+export type SseOptions = {
+  heartbeat?: number; // Heartbeat comment interval in ms, `0` disables it
+  retry?: number; // Reconnection time sent when the stream opens
+  headers?: Record<string, string>; // Extra response headers
+  write?: (error: unknown) => void; // Logs errors thrown by the source
+};
+
 // Define the type for request handler functions
 export type ReqHandler<T = any> = (
   req: Request, // Express request object
@@ -35,14 +179,123 @@ export type ReqHandler<T = any> = (
   next: NextFunction, // Next middleware function
 ) => T | Promise<T>; // Can return a value or a promise
 
+// Define a route handler that receives a cancellation signal
+export type AbortableReqHandler<T = any> = (
+  req: Request, // Express request object
+  res: Response, // Express response object
+  next: NextFunction, // Next middleware function
+  signal: AbortSignal, // Aborted on timeout or client disconnect
+) => T | Promise<T>;
+
+// Define the HandlerOptions type
+export type HandlerOptions = {
+  timeout?: number; // Maximum handler duration in milliseconds
+  timeoutStatus?: 503 | 504; // Status sent when the timeout passes, default 504
+  write?: (error: unknown) => void; // Logs errors of returned event streams
+};
+
+// Define a single validation failure, `path` points at the failing field
+export interface ValidationIssue {
+  message: string; // Message describing the failure
+  path?: ReadonlyArray<PropertyKey | {key: PropertyKey}>; // Field path segments
+}
+
+// Define the result of a validation, either a parsed value or a list of issues
+export type ValidationResult<T> =
+  | {value: T; issues?: undefined} // Successful validation
+  | {issues: ReadonlyArray<ValidationIssue>}; // Failed validation
+
+// Define a plain validator function
+export type Validator<T = unknown> = (
+  value: unknown,
+) => ValidationResult<T> | Promise<ValidationResult<T>>;
+
+// Define a Standard Schema (v1) compatible object, e.g. Zod or Valibot schemas
+export interface StandardSchema<T = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => ValidationResult<T> | Promise<ValidationResult<T>>;
+    readonly types?: {readonly input: unknown; readonly output: T};
+  };
+}
+
+// Define any schema accepted by `schemaHandler`
+export type Schema<T = unknown> = Validator<T> | StandardSchema<T>;
+
+// Infers the parsed output type of a schema
+export type InferSchema<S> =
+  S extends StandardSchema<infer T>
+    ? T
+    : S extends Validator<infer T>
+      ? T
+      : unknown;
+
+// Define the schemas of the request parts and the returned result
+export type RequestSchemas = {
+  params?: Schema;
+  query?: Schema;
+  body?: Schema;
+  headers?: Schema;
+  result?: Schema; // Validates `ApiRes.result`, only checked in dev mode
+};
+
+// Define the parsed, typed request input passed to a schema handler
+export type ParsedInput<S extends RequestSchemas> = {
+  [K in Exclude<keyof RequestSchemas, 'result'>]: S[K] extends Schema
+    ? InferSchema<S[K]>
+    : Request[K];
+};
+
+// Define the type for schema-validated handler functions
+export type SchemaReqHandler<S extends RequestSchemas, T = any> = (
+  input: ParsedInput<S>, // Validated request parts
+  req: Request, // Express request object
+  res: Response, // Express response object
+  next: NextFunction, // Next middleware function
+  signal: AbortSignal, // Aborted on timeout or client disconnect
+) => T | Promise<T>;
+
+// Define the SchemaOptions type
+export type SchemaOptions = HandlerOptions & {
+  isDev?: boolean; // Validate `ApiRes.result` against the `result` schema
+  status?: number; // Status of request validation errors, default 400
+};
+
 // Define a constructor type for classes
 export type Constructor<T> = new (...args: any[]) => T;
 
+// Define the lifetime of a provided value
+export type ProviderScope = 'singleton' | 'transient' | 'request';
+
+// Define a dependency token: a class or an `InjectionToken`
+export type Token<T = any> = Constructor<T> | InjectionToken<T>;
+
+// Define how the container creates the value of a token
+export type Provider<T = any> = {
+  useClass?: Constructor<T>; // Class to construct, default the token itself
+  useValue?: T; // Fixed value, always a singleton
+  useFactory?: (container: Container, req?: Request) => T | Promise<T>; // Factory, `req` in request scope
+  deps?: Token[]; // Constructor dependencies of `useClass`
+  scope?: ProviderScope; // Lifetime, default `transient`
+  dispose?: (value: T) => void | Promise<void>; // Cleanup of singleton and request values
+};
+
+// Define the options of the `Injectable` decorator
+export type InjectableOptions = {
+  scope?: ProviderScope; // Lifetime, default `transient`
+  deps?: Token[]; // Constructor dependencies, in parameter order
+};
+
 // Define a type that wraps methods of a class with request handlers
 export type WrappedMethods<T> = {
-  [K in keyof T]: T[K] extends (...args: any[]) => any
-    ? ReqHandler<void> // If the method is a function, wrap it with ReqHandler
-    : T[K]; // Otherwise, keep the original type
+  [K in keyof T]: K extends `_${string}`
+    ? T[K] // Helpers prefixed with `_` are not wrapped
+    : T[K] extends (...args: any[]) => any
+      ? ReqHandler<void> // If the method is a function, wrap it with ReqHandler
+      : T[K]; // Otherwise, keep the original type
 };
 
 // Define the ProxyWrapper type
@@ -106,16 +359,389 @@ export type ProxyWrapper = {
     clsOrInstance: Constructor<T>,
     ...args: ConstructorParameters<Constructor<T>>
   ): WrappedMethods<T>;
+
+  /**
+   * Wraps a class whose instances are resolved from a dependency injection
+   * container on every call, so request-scoped dependencies are per request.
+   *
+   * @param clsOrInstance - The class constructor.
+   * @param container - The container resolving the class and its dependencies.
+   * @returns A proxy where all methods are wrapped with `asyncHandler`.
+   *
+   * @example
+   * \@Injectable({deps: [UserService, CurrentUser]})
+   * class UserController {
+   *   constructor(private users: UserService, private user: User) {}
+   *   async me() {
+   *     return ApiRes.ok(this.user);
+   *   }
+   * }
+   * app.get('/me', proxyWrapper(UserController, container).me);
+   */
+  <T extends object>(
+    clsOrInstance: Constructor<T>,
+    container: Container,
+  ): WrappedMethods<T>;
+};
+
+// Define the HTTP methods supported by route decorators
+export type RouteMethod =
+  | 'get'
+  | 'post'
+  | 'put'
+  | 'patch'
+  | 'delete'
+  | 'head'
+  | 'options'
+  | 'all';
+
+// Define the route metadata collected by method decorators
+export type RouteMeta = {
+  method?: RouteMethod; // HTTP method of the route
+  path?: string; // Route path, relative to the controller prefix
+  status?: number; // Default response status set by `@HttpCode`
+  middlewares: RequestHandler[]; // Middleware run before the method
+  guards: Guard[]; // Guards run before the method
+  interceptors: Interceptor[]; // Interceptors run around the method
+};
+
+// Define the controller metadata collected by class decorators
+export type ControllerMeta = {
+  prefix?: string; // Path prefix of every route in the controller, set by `@Controller`
+  middlewares: RequestHandler[]; // Middleware run before every route
+  guards: Guard[]; // Guards run before every method
+  interceptors: Interceptor[]; // Interceptors run around every method
+};
+
+// Define a guard, returning false rejects the request with `ForbiddenError`
+export type Guard = (req: Request, res: Response) => boolean | Promise<boolean>;
+
+// Define the context passed to interceptors
+export type InterceptorContext = {
+  req: Request; // Express request object
+  res: Response; // Express response object
+  controller: object; // Controller instance the method is called on
+  method: string; // Name of the called method
+};
+
+// Define an interceptor: a function around the method, or before/after hooks
+export type Interceptor =
+  | ((context: InterceptorContext, call: () => Promise<unknown>) => unknown)
+  | {
+      before?: (context: InterceptorContext) => void | Promise<void>; // Runs before the method
+      after?: (result: unknown, context: InterceptorContext) => unknown; // Returns a new result, or undefined to keep it
+    };
+
+// Define the per-request context stored in AsyncLocalStorage
+export type RequestContext = {
+  id: string; // Request correlation id
+  start: number; // Start time of the request (`performance.now()`)
+};
+
+// Define the context passed to the error logger
+export type ErrorContext = {
+  requestId?: string; // Request id, if the `requestId` middleware is used
+  method: string; // HTTP method
+  path: string; // Request path, without the query string
+  status: number; // Status of the error response
+  duration?: number; // Elapsed milliseconds, if the `requestId` middleware is used
+  userAgent?: string; // User-Agent header
+};
+
+// Define the RequestIdOptions type
+export type RequestIdOptions = {
+  header?: string; // Request/response header of the id, default `X-Request-Id`
+  trustIncoming?: boolean; // Reuse ids sent by the client or `traceparent`, default true
+  generate?: () => string; // Id generator, default `crypto.randomUUID`
+};
+
+// Infers the input type of a Standard Schema, `unknown` for validator functions
+export type InferSchemaInput<S> = S extends {
+  readonly '~standard': {readonly types?: {readonly input: infer I}};
+}
+  ? I
+  : unknown;
+
+// Extracts the `:name` parameters of a route path
+export type PathParams<P extends string> =
+  P extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | PathParams<`/${Rest}`>
+    : P extends `${string}:${infer Name}`
+      ? Name
+      : never;
+
+// Define a typed route contract, shared by the server and the client
+export type RouteDef<
+  M extends RouteMethod = RouteMethod,
+  P extends string = string,
+  S extends RequestSchemas = RequestSchemas,
+  E extends readonly HttpErrorClass[] = readonly HttpErrorClass[],
+> = {
+  method: M; // HTTP method of the route
+  path: P; // Route path (e.g. `/users/:id`)
+  schemas: S; // Schemas of the request parts and the result
+  errors: E; // HttpError classes the route can throw
+} & RouteDocs;
+
+// Define the documentation of a route, used by the OpenAPI generator
+export type RouteDocs = {
+  summary?: string; // Short summary of the operation
+  description?: string; // Longer description of the operation
+  tags?: string[]; // Tags grouping the operation
+  status?: number; // Success status, default 200
+  deprecated?: boolean; // Marks the operation as deprecated
+};
+
+// Infers the result type of a route from its `result` schema
+export type RouteOutput<R> =
+  R extends RouteDef<any, any, infer S>
+    ? S['result'] extends Schema
+      ? InferSchema<S['result']>
+      : unknown
+    : never;
+
+// Infers the union of HttpError instances a route can throw
+export type RouteErrors<R> =
+  R extends RouteDef<any, any, any, infer E> ? InstanceType<E[number]> : never;
+
+// Define the request input of a typed client call
+export type ClientInput<R extends RouteDef> =
+  R extends RouteDef<any, infer P, infer S>
+    ? (S['params'] extends Schema
+        ? {params: InferSchemaInput<S['params']>}
+        : [PathParams<P>] extends [never]
+          ? {params?: Record<string, string | number>}
+          : {params: Record<PathParams<P>, string | number>}) &
+        (S['query'] extends Schema
+          ? {query: InferSchemaInput<S['query']>}
+          : {query?: Record<string, unknown>}) &
+        (S['body'] extends Schema
+          ? {body: InferSchemaInput<S['body']>}
+          : {body?: unknown}) &
+        (S['headers'] extends Schema
+          ? {headers: InferSchemaInput<S['headers']>}
+          : {headers?: Record<string, string>})
+    : never;
+
+// Define a typed client with one method per route
+export type Client<R extends Record<string, RouteDef>> = {
+  [K in keyof R]: Record<never, never> extends ClientInput<R[K]>
+    ? (input?: ClientInput<R[K]>) => Promise<HttpResBody<RouteOutput<R[K]>>>
+    : (input: ClientInput<R[K]>) => Promise<HttpResBody<RouteOutput<R[K]>>>;
+};
+
+// Define the ClientOptions type
+export type ClientOptions = {
+  baseUrl: string; // Base URL of the API (e.g. `https://api.example.com`)
+  fetch?: typeof fetch; // Fetch implementation, default global `fetch`
+  headers?: // Headers sent with every request
+  | Record<string, string>
+    | (() => Record<string, string> | Promise<Record<string, string>>);
+};
+
+// Define a JSON Schema object
+export type JsonSchema = Record<string, any>;
+
+// Define a generated OpenAPI 3.1 document
+export type OpenApiDocument = {
+  openapi: '3.1.0';
+  info: {title: string; version: string; description?: string};
+  servers?: {url: string; description?: string}[];
+  paths: Record<string, Record<string, unknown>>;
+  components: {schemas: Record<string, JsonSchema>};
+};
+
+// Define the OpenApiOptions type
+export type OpenApiOptions = {
+  info?: OpenApiDocument['info']; // Document info, default `{title: 'API', version: '1.0.0'}`
+  servers?: OpenApiDocument['servers']; // Servers of the API
+  prefix?: string; // Path the routes are mounted at (e.g. `/api`)
+  format?: 'json' | 'problem'; // Error body format, same as `globalErrorHandler`
+  typeBase?: string; // Base URI of the problem `type` member
+  validationStatus?: number; // Status of validation errors, same as `schemaHandler`
+  toJsonSchema?: (
+    schema: Schema,
+    io: 'input' | 'output',
+  ) => JsonSchema | undefined; // Converts a schema to JSON Schema
+};
+
+// Define the ServeOpenApiOptions type
+export type ServeOpenApiOptions = OpenApiOptions & {
+  path?: string; // Path of the JSON document, default `/openapi.json`
+};
+
+// Define a key-value store with expiry, sync or async (e.g. Redis-backed)
+export type Store<T> = {
+  get(key: string): T | undefined | Promise<T | undefined>; // Undefined if missing or expired
+  set(key: string, value: T, ttl: number): void | Promise<void>; // `ttl` in milliseconds
+  delete(key: string): void | Promise<void>;
+  add?(key: string, value: T, ttl: number): boolean | Promise<boolean>; // Set only if missing (e.g. Redis `SET NX`)
+  update?(
+    key: string,
+    fn: (value: T | undefined) => T,
+    ttl: number,
+  ): T | Promise<T>; // Atomic read-modify-write (e.g. a Redis Lua script), `fn` may run more than once
+};
+
+// Define the rate limit algorithms
+export type RateLimitAlgorithm =
+  | 'fixed-window'
+  | 'sliding-window'
+  | 'token-bucket';
+
+// Define the per-key state of a rate limit algorithm, JSON-serializable
+export type RateLimitState = Record<string, number>;
+
+// Define the RateLimitOptions type
+export type RateLimitOptions = {
+  limit: number; // Requests allowed per window (bucket size for `token-bucket`)
+  window: number; // Window length in milliseconds (full refill time for `token-bucket`)
+  algorithm?: RateLimitAlgorithm; // Default `fixed-window`
+  key?: 'ip' | 'user' | ((req: Request) => string | Promise<string>); // Client key, default `ip`
+  store?: Store<RateLimitState>; // Default in-memory LRU store
+  prefix?: string; // Prefix of store keys, default `rl:`
+  headers?: boolean; // Send `RateLimit-*` headers, default true
+  skip?: (req: Request) => boolean; // Skip limiting for some requests
+  message?: BodyMessage; // Error message, default `Too many requests`
+};
+
+// Define a stored idempotent response, without `status` while in flight
+export type IdempotencyEntry = {
+  fingerprint: string; // Hash of the method, URL and body of the first request
+  status?: number; // Status of the stored response
+  body?: string; // Base64 body of the stored response
+  headers?: Record<string, string>; // Content-Type and selected headers of the stored response
+};
+
+// Define the IdempotencyOptions type
+export type IdempotencyOptions = {
+  header?: string; // Request header of the key, default `Idempotency-Key`
+  methods?: string[]; // Methods the key is honoured for, default POST and PATCH
+  required?: boolean; // Reject requests without a key, default false
+  store?: Store<IdempotencyEntry>; // Default in-memory LRU store
+  prefix?: string; // Prefix of store keys, default `idem:`
+  ttl?: number; // Lifetime of stored responses in milliseconds, default 24 hours
+  lockTtl?: number; // Lifetime of in-flight entries in milliseconds, default 1 minute
+  headers?: string[]; // Response headers stored and replayed, default `Location`
+  maxBodySize?: number; // Largest stored body in bytes, larger responses are not replayed, default 1 MiB
+  scope?: (req: Request) => string; // Scopes keys, e.g. per user
+  fingerprint?: (req: Request) => string; // Request fingerprint, default hash of method, URL and body
+};
+
+// Define a health check, failing when it throws, rejects or returns false
+export type HealthCheck = () => unknown;
+
+// Define the options of a registered health check
+export type HealthCheckOptions = {
+  timeout?: number; // Milliseconds before the check fails, default the router's timeout
+  critical?: boolean; // A failure makes the service unavailable (503), default true
+};
+
+// Define the result of one health check
+export type HealthCheckResult = {
+  status: 'up' | 'down'; // Outcome of the check
+  critical: boolean; // Whether a failure makes the service unavailable
+  latency: number; // Duration of the check in milliseconds
+  error?: string; // Failure reason, only with `isDev`
+};
+
+// Define the health report sent as the `ApiRes` result
+export type HealthReport = {
+  status: 'up' | 'degraded' | 'down'; // `degraded` when only non-critical checks fail
+  checks: Record<string, HealthCheckResult>; // Results by check name
+};
+
+// Define the options of the health router
+export type HealthRouterOptions = {
+  livePath?: string; // Liveness path, default `/health/live`
+  readyPath?: string; // Readiness path, default `/health/ready`
+  timeout?: number; // Default check timeout in milliseconds, default 5 seconds
+  isDev?: boolean; // Include failure reasons in the report
+};
+
+// Define the options of graceful shutdown
+export type ShutdownOptions = {
+  signals?: NodeJS.Signals[]; // Signals starting the shutdown, default SIGTERM and SIGINT
+  delay?: number; // Milliseconds between failing readiness and closing the server, default 0
+  timeout?: number; // Milliseconds to drain in-flight requests, default 10 seconds
+  exit?: boolean; // Exit the process after a signal-triggered shutdown, default true
+  write?: (error: unknown) => void; // Logs shutdown failures
+};
+
+// Define the fake request built by `exutile/testing`
+export type TestRequestOptions = {
+  method?: string; // HTTP method, default GET
+  url?: string; // Request URL with query string, default `/`
+  headers?: Record<string, string>; // Request headers
+  query?: Record<string, unknown>; // Parsed query, default parsed from `url`
+  params?: Record<string, string>; // Route parameters
+  body?: unknown; // Parsed body, sent as JSON unless a content type is given
+  props?: Record<string, unknown>; // Extra request properties, e.g. `user`
+  app?: Express; // App whose settings are used, default a new app
+};
+
+// Define the options of `invoke` from `exutile/testing`
+export type InvokeOptions = TestRequestOptions & {
+  error?: unknown; // Error passed to the first error-handling middleware
+  timeout?: number; // Milliseconds before `invoke` rejects, default 2 seconds
+};
+
+// Define the response recorded by `exutile/testing`
+export type TestResponse = {
+  status: number; // Response status code
+  headers: Record<string, string | string[] | number | undefined>; // Response headers, lowercased
+  text: string; // Raw body
+  body: unknown; // Parsed JSON body, or the raw body for other content types
+  ended: boolean; // Whether the response was ended
+};
+
+// Define the outcome of `invoke` from `exutile/testing`
+export type TestResult = TestResponse & {
+  req: Request; // Fake request
+  res: Response; // Fake response
+  nextCalled: boolean; // Whether the last handler called `next`
+  error?: unknown; // Error passed to `next` by the last handler
+};
+
+// Define the expected fields of an `ApiRes` body
+export type ApiResExpectation = {
+  status?: number; // Expected status
+  message?: string; // Expected message
+  result?: unknown; // Expected result, compared deeply
+};
+
+// Define the expected fields of an `HttpError` body
+export type HttpErrorExpectation = {
+  message?: BodyMessage; // Expected message
+  code?: string; // Expected error code
+  detail?: unknown; // Expected detail, compared deeply
+};
+
+// Define the response envelope formatters registered with `registerEnvelope`
+export type Envelope = {
+  success?: (body: HttpResBody, res: ApiRes) => unknown; // Reshapes `ApiRes.toJson()`
+  error?: (body: HttpErrorBody, error: HttpError) => unknown; // Reshapes `HttpError.toJson()`
 };
 
 // Define the ErrorOption type
 export type ErrorOptions = {
   isDev?: boolean;
-  write?: (error: unknown) => void;
+  write?: (error: unknown, context: ErrorContext) => void;
+  format?: 'json' | 'problem'; // Response body format, `problem` is RFC 9457
+  typeBase?: string; // Base URI of the problem `type` member
+  throwOnHeadersSent?: boolean; // Rethrow errors raised after the response was sent, dev only
 };
 
+// Define the values substituted into `{{ key }}` placeholders of `index.html`
+export type TemplateData = Record<string, unknown>;
+
 // Define the ServeOptions type
 export type ServeOptions = {
   path?: string;
+  base?: string; // URL path the app is mounted at, default `/`
   exclude?: string | string[];
+  render?: (req: Request) => TemplateData | Promise<TemplateData>; // Values of `index.html` placeholders
+  maxAge?: number; // Cache max-age in seconds of non-hashed assets, default 0
+  immutable?: RegExp; // File names cached as immutable, default hashed names
+  precompressed?: boolean; // Serve `.br`/`.gz` siblings, default true
 };
@@ -0,0 +1,135 @@
+import {ApiRes} from './api-res';
+import {handler} from './handler';
+import {HttpStatus} from './enums';
+import {createHttpError, InternalServerError} from './errors';
+import type {Request} from 'express';
+import type {
+  Schema,
+  ReqHandler,
+  ParsedInput,
+  SchemaOptions,
+  RequestSchemas,
+  SchemaReqHandler,
+  ValidationIssue,
+  ValidationResult,
+} from './types';
+
+/** Request parts validated by `schemaHandler`, in validation order. */
+const REQUEST_PARTS = ['params', 'query', 'headers', 'body'] as const;
+
+/** Field failure listed in the `detail` of a validation error. */
+type FieldError = {path: string; message: string};
+
+/**
+ * Runs a value through a plain validator function or a Standard Schema.
+ *
+ * @param {Schema} schema - The validator function or Standard Schema object.
+ * @param {unknown} value - The value to validate.
+ * @returns {Promise<ValidationResult<unknown>>} - The parsed value or the issues.
+ */
+const runSchema = async (
+  schema: Schema,
+  value: unknown,
+): Promise<ValidationResult<unknown>> =>
+  typeof schema === 'function'
+    ? schema(value)
+    : schema['~standard'].validate(value);
+
+/**
+ * Converts validation issues into field errors prefixed with the request part.
+ *
+ * @param {string} part - The validated part (e.g. `body`).
+ * @param {ReadonlyArray<ValidationIssue>} issues - The validation issues.
+ * @returns {FieldError[]} - Field errors with dotted paths (e.g. `body.user.email`).
+ */
+const toFieldErrors = (
+  part: string,
+  issues: ReadonlyArray<ValidationIssue>,
+): FieldError[] =>
+  issues.map(({message, path = []}) => {
+    const keys = path.map(seg => (typeof seg === 'object' ? seg.key : seg));
+    return {path: [part, ...keys.map(String)].join('.'), message};
+  });
+
+/**
+ * Validates every request part that has a schema and collects all failures.
+ *
+ * @param {RequestSchemas} schemas - The schemas of the request parts.
+ * @param {Request} req - The Express request object.
+ * @param {number} status - The HTTP status of the thrown validation error.
+ * @returns {Promise<ParsedInput<S>>} - The parsed request parts.
+ * @throws {HttpError} - The error class of `status` (e.g. `BadRequestError`) if any part fails validation.
+ */
+const parseInput = async <S extends RequestSchemas>(
+  schemas: S,
+  req: Request,
+  status: number,
+): Promise<ParsedInput<S>> => {
+  const input: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  for (const part of REQUEST_PARTS) {
+    const schema = schemas[part];
+    if (!schema) {
+      input[part] = req[part];
+      continue;
+    }
+    const result = await runSchema(schema, req[part]);
+    if (result.issues) errors.push(...toFieldErrors(part, result.issues));
+    else input[part] = result.value;
+  }
+
+  if (errors.length)
+    throw createHttpError(status, 'Validation failed', {errors});
+  return input as ParsedInput<S>;
+};
+
+/**
+ * Wraps a route handler with schema validation of the request parts.
+ *
+ * - Validates `params`, `query`, `headers` and `body` before calling the function.
+ * - Passes the parsed, typed values as the first argument.
+ * - Rejects with the `HttpError` subclass of `status` (e.g. `BadRequestError`), whose
+ *   `detail.errors` lists every failing field path.
+ * - In dev mode, validates `ApiRes.result` against the `result` schema.
+ *
+ * Schemas can be plain validator functions or any Standard Schema object (Zod, Valibot, ArkType).
+ *
+ * @param {RequestSchemas} schemas - The schemas of the request parts and result.
+ * @param {SchemaReqHandler} func - The route handler receiving the parsed input.
+ * @param {SchemaOptions} [options] - Validation options.
+ * @param {boolean} [options.isDev=false] - Validate the returned `ApiRes.result` if true.
+ * @param {number} [options.status=400] - HTTP status of request validation errors.
+ * @param {number} [options.timeout] - Maximum handler duration in milliseconds, see `handler`.
+ * @param {(error: unknown) => void} [options.write] - Logs errors of returned event streams, see `handler`.
+ * @returns {ReqHandler} - A wrapped handler with validation, error and result handling.
+ *
+ * @example
+ * const createUser = schemaHandler(
+ *   {body: z.object({name: z.string(), email: z.string().email()})},
+ *   async ({body}) => ApiRes.created(await users.create(body)),
+ *   {status: HttpStatus.UNPROCESSABLE_ENTITY},
+ * );
+ */
+export const schemaHandler = <S extends RequestSchemas>(
+  schemas: S,
+  func: SchemaReqHandler<S, unknown>,
+  options: SchemaOptions = {},
+): ReqHandler<void> => {
+  const {isDev = false, status = HttpStatus.BAD_REQUEST, ...rest} = options;
+
+  return handler(async (req, res, next, signal) => {
+    const input = await parseInput(schemas, req, status);
+    const value = await func(input, req, res, next, signal);
+
+    // Check the returned result against its schema in dev mode only
+    if (isDev && schemas.result && value instanceof ApiRes) {
+      const result = await runSchema(schemas.result, value.result);
+      if (result.issues) {
+        const errors = toFieldErrors('result', result.issues);
+        throw new InternalServerError('Result validation failed', {errors});
+      }
+    }
+    return value;
+  }, rest);
+};
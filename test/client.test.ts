@@ -0,0 +1,156 @@
+import express, {Router} from 'express';
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  ApiRes,
+  BadRequestError,
+  ConflictError,
+  HttpError,
+  NotFoundError,
+  createClient,
+  defineRoute,
+  globalErrorHandler,
+  registerEnvelope,
+  registerRoute,
+  requestId,
+} from '../src';
+import {serve} from './helpers';
+import type {Envelope, Validator} from '../src';
+
+type User = {id: string; name: string};
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const userBody: Validator<{name: string}> = value => {
+  const name = (value as any)?.name;
+  return typeof name === 'string'
+    ? {value: {name}}
+    : {issues: [{message: 'Required', path: ['name']}]};
+};
+const userResult: Validator<User> = value => ({value: value as User});
+
+const getUser = defineRoute({
+  method: 'get',
+  path: '/users/:id',
+  schemas: {result: userResult},
+  errors: [NotFoundError],
+});
+const listUsers = defineRoute({
+  method: 'get',
+  path: '/users',
+  schemas: {result: userResult},
+});
+const createUser = defineRoute({
+  method: 'post',
+  path: '/users',
+  schemas: {body: userBody, result: userResult},
+  errors: [ConflictError],
+});
+const routes = {getUser, listUsers, createUser};
+
+const start = async (format?: 'problem', envelope?: Envelope) => {
+  server = await serve(app => {
+    if (envelope) registerEnvelope(envelope, app);
+    const router = Router();
+    const users: User[] = [{id: '1', name: 'Alice'}];
+    registerRoute(router, getUser, async ({params}) => {
+      const user = users.find(({id}) => id === (params as any).id);
+      if (!user) throw new NotFoundError('User not found');
+      return ApiRes.ok(user);
+    });
+    registerRoute(router, listUsers, async ({query}) =>
+      ApiRes.ok({id: 'q', name: JSON.stringify(query)}),
+    );
+    registerRoute(router, createUser, async ({body}) => {
+      if (users.some(({name}) => name === body.name))
+        throw new ConflictError('Name taken').withCode('NAME_TAKEN');
+      const user = {id: String(users.length + 1), name: body.name};
+      users.push(user);
+      return ApiRes.created(user);
+    });
+    app.use(requestId());
+    app.use(express.json());
+    app.use(router);
+    app.use(globalErrorHandler({isDev: false, format}));
+  });
+  return createClient(routes, {
+    baseUrl: `${server.url}/`,
+    headers: async () => ({'X-Request-Id': 'req-42'}),
+  });
+};
+
+const failure = (promise: Promise<unknown>) =>
+  promise.then(
+    () => expect.fail('Expected the call to fail'),
+    error => error as HttpError,
+  );
+
+describe('createClient', () => {
+  it('round-trips params, query and body', async () => {
+    const api = await start();
+    const {result, status} = await api.getUser({params: {id: '1'}});
+    expect(status).toBe(200);
+    expect(result).toEqual({id: '1', name: 'Alice'});
+
+    const list = await api.listUsers({query: {tag: ['a', 'b'], page: 2}});
+    expect(JSON.parse(list.result.name)).toEqual({tag: ['a', 'b'], page: '2'});
+
+    const created = await api.createUser({body: {name: 'Bob'}});
+    expect(created.status).toBe(201);
+    expect(created.result).toEqual({id: '2', name: 'Bob'});
+  });
+
+  it('rejects with the HttpError class, code and request id', async () => {
+    const api = await start();
+    const missing = await failure(api.getUser({params: {id: 'x'}}));
+    expect(missing).toBeInstanceOf(NotFoundError);
+    expect(missing.msg).toBe('User not found');
+    expect(missing.requestId).toBe('req-42');
+
+    const taken = await failure(api.createUser({body: {name: 'Alice'}}));
+    expect(taken).toBeInstanceOf(ConflictError);
+    expect(taken.code).toBe('NAME_TAKEN');
+
+    const invalid = await failure(api.createUser({body: {} as any}));
+    expect(invalid).toBeInstanceOf(BadRequestError);
+    expect(invalid.detail).toEqual({
+      errors: [{path: 'body.name', message: 'Required'}],
+    });
+  });
+
+  it('reads problem details bodies', async () => {
+    const api = await start('problem');
+    const taken = await failure(api.createUser({body: {name: 'Alice'}}));
+    expect(taken).toBeInstanceOf(ConflictError);
+    expect(taken.msg).toBe('Name taken');
+    expect(taken.code).toBe('NAME_TAKEN');
+    expect(taken.requestId).toBe('req-42');
+
+    const invalid = await failure(api.createUser({body: {} as any}));
+    expect(invalid.detail).toEqual({
+      errors: [{path: 'body.name', message: 'Required'}],
+    });
+  });
+
+  it('reads enveloped error bodies', async () => {
+    const api = await start(undefined, {
+      error: ({message, detail, requestId}, error) => ({
+        success: false,
+        error: {code: error.code ?? error.name, message, detail},
+        meta: {requestId},
+      }),
+    });
+    const taken = await failure(api.createUser({body: {name: 'Alice'}}));
+    expect(taken).toBeInstanceOf(ConflictError);
+    expect(taken.msg).toBe('Name taken');
+    expect(taken.code).toBe('NAME_TAKEN');
+    expect(taken.requestId).toBe('req-42');
+  });
+
+  it('throws for a missing path parameter', async () => {
+    const api = await start();
+    await expect(api.getUser({params: {} as any})).rejects.toThrow(
+      'Missing path parameter "id" for /users/:id.',
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {ApiRes, ConditionalRes, globalErrorHandler, handler} from '../src';
+import {serve} from './helpers';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const UPDATED = new Date('2024-01-02T00:00:00Z');
+
+const start = async () => {
+  const calls = {read: 0, write: 0};
+  let version = 1;
+  server = await serve(app => {
+    app.get(
+      '/users',
+      handler(() => ApiRes.ok([{id: 1}])),
+    );
+    app.get(
+      '/users/1',
+      handler(
+        () =>
+          new ConditionalRes(
+            {etag: `v${version}`, lastModified: UPDATED},
+            () => {
+              calls.read++;
+              return ApiRes.ok({id: 1, version});
+            },
+          ),
+      ),
+    );
+    app.put(
+      '/users/1',
+      handler(
+        () =>
+          new ConditionalRes(
+            {etag: `v${version}`, lastModified: UPDATED, required: true},
+            () => {
+              calls.write++;
+              version++;
+              return ApiRes.ok({id: 1, version}).withETag(`v${version}`);
+            },
+          ),
+      ),
+    );
+    app.use(globalErrorHandler({isDev: false}));
+  });
+  const put = (headers: Record<string, string>) =>
+    fetch(`${server!.url}/users/1`, {method: 'PUT', headers});
+  return {url: server.url, calls, put};
+};
+
+describe('conditional requests', () => {
+  it('sends 304 when the ETag of an ApiRes matches', async () => {
+    const {url} = await start();
+    const first = await fetch(`${url}/users`);
+    const etag = first.headers.get('etag')!;
+    expect(etag).toMatch(/^W\/"/);
+
+    const cached = await fetch(`${url}/users`, {
+      headers: {'If-None-Match': etag},
+    });
+    expect(cached.status).toBe(304);
+    expect(cached.headers.get('etag')).toBe(etag);
+    expect(await cached.text()).toBe('');
+
+    const changed = await fetch(`${url}/users`, {
+      headers: {'If-None-Match': 'W/"other"'},
+    });
+    expect(changed.status).toBe(200);
+  });
+
+  it('answers HEAD like GET without a body', async () => {
+    const {url} = await start();
+    const head = await fetch(`${url}/users`, {method: 'HEAD'});
+    expect(head.status).toBe(200);
+    const etag = head.headers.get('etag')!;
+    expect(etag).toBe((await fetch(`${url}/users`)).headers.get('etag'));
+    expect(await head.text()).toBe('');
+
+    const cached = await fetch(`${url}/users`, {
+      method: 'HEAD',
+      headers: {'If-None-Match': etag},
+    });
+    expect(cached.status).toBe(304);
+  });
+
+  it('skips the action of a ConditionalRes when the copy is current', async () => {
+    const {url, calls} = await start();
+    const validators: Record<string, string>[] = [
+      {'If-None-Match': '"v1"'},
+      {'If-Modified-Since': UPDATED.toUTCString()},
+    ];
+    for (const headers of validators) {
+      const res = await fetch(`${url}/users/1`, {headers});
+      expect(res.status).toBe(304);
+      expect(res.headers.get('etag')).toBe('"v1"');
+    }
+    expect(calls.read).toBe(0);
+
+    const res = await fetch(`${url}/users/1`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('etag')).toBe('"v1"');
+    expect(res.headers.get('last-modified')).toBe(UPDATED.toUTCString());
+    expect(calls.read).toBe(1);
+  });
+
+  it('rejects failed write preconditions with 412', async () => {
+    const {put, calls} = await start();
+    expect((await put({'If-Match': '"v0"'})).status).toBe(412);
+    expect(
+      (await put({'If-Unmodified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT'}))
+        .status,
+    ).toBe(412);
+    expect(calls.write).toBe(0);
+
+    const ok = await put({'If-Match': '"v1"'});
+    expect(ok.status).toBe(200);
+    expect(ok.headers.get('etag')).toBe('"v2"');
+    expect((await put({'If-Match': '"v1"'})).status).toBe(412);
+    expect(calls.write).toBe(1);
+  });
+
+  it('requires a precondition with 428', async () => {
+    const {put, calls} = await start();
+    const res = await put({});
+    expect(res.status).toBe(428);
+    expect(calls.write).toBe(0);
+  });
+
+  it('sends a 406 without the success validators', async () => {
+    const {url} = await start();
+    const success = (await fetch(`${url}/users`)).headers.get('etag');
+    const res = await fetch(`${url}/users`, {
+      headers: {Accept: 'application/xml'},
+    });
+    expect(res.status).toBe(406);
+    // Express may tag the error body itself, never with the success tag
+    expect(res.headers.get('etag')).not.toBe(success);
+    expect(res.headers.get('content-type')).toContain('application/json');
+  });
+});
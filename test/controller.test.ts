@@ -0,0 +1,123 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  ApiRes,
+  Controller,
+  Get,
+  Use,
+  UseGuards,
+  UseInterceptors,
+  buildRouter,
+  globalErrorHandler,
+} from '../src';
+import {serve} from './helpers';
+import type {Request, RequestHandler} from 'express';
+import type {Interceptor} from '../src';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+let steps: string[] = [];
+const step =
+  (name: string): RequestHandler =>
+  (_req, _res, next) => {
+    steps.push(name);
+    next();
+  };
+const tag =
+  (name: string): Interceptor =>
+  async (_context, call) => {
+    steps.push(`before ${name}`);
+    const result = await call();
+    steps.push(`after ${name}`);
+    return result;
+  };
+const allowed = (req: Request) => req.get('Authorization') === 'secret';
+
+@Use(step('base'))
+@UseGuards(allowed)
+@UseInterceptors(tag('base'))
+@Controller('/base')
+class BaseController {
+  @Get('/ping')
+  ping() {
+    steps.push('ping');
+    return ApiRes.ok('pong');
+  }
+}
+
+@Use(step('users'))
+@UseInterceptors(tag('users'))
+@Controller('/users')
+class UserController extends BaseController {
+  @Get('/')
+  @Use(step('list'))
+  list() {
+    steps.push('list');
+    return ApiRes.ok([]);
+  }
+}
+
+@Use(step('admin'))
+class AdminController extends UserController {}
+
+const start = (cls: new () => BaseController) =>
+  serve(app => {
+    app.use(buildRouter(cls));
+    app.use(globalErrorHandler());
+  }).then(started => (server = started));
+
+const get = (path: string, authorized = true) =>
+  fetch(server!.url + path, {
+    headers: authorized ? {Authorization: 'secret'} : {},
+  });
+
+describe('controller inheritance', () => {
+  it('runs base class decorators before derived ones', async () => {
+    await start(UserController);
+    steps = [];
+    expect((await get('/users')).status).toBe(200);
+    expect(steps).toEqual([
+      'base',
+      'users',
+      'list',
+      'before base',
+      'before users',
+      'list',
+      'after users',
+      'after base',
+    ]);
+
+    steps = [];
+    expect((await get('/users/ping')).status).toBe(200);
+    expect(steps).toEqual([
+      'base',
+      'users',
+      'before base',
+      'before users',
+      'ping',
+      'after users',
+      'after base',
+    ]);
+  });
+
+  it('keeps inherited guards', async () => {
+    await start(UserController);
+    expect((await get('/users', false)).status).toBe(403);
+    expect((await get('/users/ping', false)).status).toBe(403);
+  });
+
+  it('inherits the nearest prefix without its own @Controller', async () => {
+    await start(AdminController);
+    steps = [];
+    expect((await get('/users/ping')).status).toBe(200);
+    expect(steps.slice(0, 3)).toEqual(['base', 'users', 'admin']);
+    expect((await get('/users', false)).status).toBe(403);
+  });
+
+  it('leaves base controllers unchanged', async () => {
+    await start(BaseController);
+    steps = [];
+    expect((await get('/base/ping')).status).toBe(200);
+    expect(steps).toEqual(['base', 'before base', 'ping', 'after base']);
+  });
+});
@@ -0,0 +1,143 @@
+import express from 'express';
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  ApiRes,
+  HttpError,
+  NotFoundError,
+  formatError,
+  globalErrorHandler,
+  handler,
+  registerEnvelope,
+} from '../src';
+import {serve} from './helpers';
+import type {Express, NextFunction, Request, Response} from 'express';
+import type {Envelope} from '../src';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => {
+  registerEnvelope({});
+  return server?.close();
+});
+
+const wrapped: Envelope = {
+  success: ({result, requestId}) => ({success: true, data: result, requestId}),
+  error: ({message}, error) => ({
+    success: false,
+    error: {code: error.code ?? error.name, message},
+  }),
+};
+
+/** Registers a user route, a missing one and a failing event stream. */
+const routes = (app: Express) => {
+  app.get(
+    '/users/:id',
+    handler(req => {
+      if (req.params.id !== '1') throw new NotFoundError('User not found');
+      return ApiRes.ok({id: 1});
+    }),
+  );
+  app.get(
+    '/events',
+    handler(async function* () {
+      yield 'start';
+      throw new NotFoundError('Feed gone');
+    }),
+  );
+};
+
+const json = (path: string) =>
+  fetch(server!.url + path).then(async res => [res.status, await res.json()]);
+
+describe('registerEnvelope', () => {
+  it('reshapes success, error and event stream bodies', async () => {
+    registerEnvelope(wrapped);
+    server = await serve(app => {
+      routes(app);
+      app.use(globalErrorHandler());
+    });
+    expect(await json('/users/1')).toEqual([
+      200,
+      {success: true, data: {id: 1}},
+    ]);
+    expect(await json('/users/2')).toEqual([
+      404,
+      {
+        success: false,
+        error: {code: 'NotFoundError', message: 'User not found'},
+      },
+    ]);
+    const events = await (await fetch(`${server.url}/events`)).text();
+    expect(events).toContain(
+      'data: {"success":false,"error":{"code":"NotFoundError","message":"Feed gone"}}',
+    );
+  });
+
+  it('scopes an envelope to an app and its sub-apps', async () => {
+    server = await serve(app => {
+      const v2 = express();
+      const admin = express();
+      registerEnvelope(wrapped, v2);
+      routes(admin);
+      routes(v2);
+      v2.use('/admin', admin);
+      // Errors use the envelope of the app whose handler sends them
+      v2.use(globalErrorHandler());
+      routes(app);
+      app.use('/v2', v2);
+      app.use(globalErrorHandler());
+    });
+    expect(await json('/users/1')).toEqual([
+      200,
+      {status: 200, message: 'Request processed successfully', result: {id: 1}},
+    ]);
+    expect((await json('/users/2'))[1]).toMatchObject({
+      status: 404,
+      error: 'NotFoundError',
+    });
+    for (const base of ['/v2', '/v2/admin']) {
+      expect(await json(`${base}/users/1`)).toEqual([
+        200,
+        {success: true, data: {id: 1}},
+      ]);
+      expect((await json(`${base}/users/2`))[1]).toEqual({
+        success: false,
+        error: {code: 'NotFoundError', message: 'User not found'},
+      });
+    }
+  });
+
+  it('lets app envelopes override the default', async () => {
+    registerEnvelope(wrapped);
+    server = await serve(app => {
+      registerEnvelope({}, app);
+      routes(app);
+      app.use(globalErrorHandler());
+    });
+    expect((await json('/users/1'))[1]).toEqual({
+      status: 200,
+      message: 'Request processed successfully',
+      result: {id: 1},
+    });
+  });
+
+  it('formats errors of custom middleware for the request', async () => {
+    server = await serve(app => {
+      registerEnvelope(wrapped, app);
+      routes(app);
+      app.use(
+        (err: unknown, req: Request, res: Response, next: NextFunction) => {
+          if (HttpError.isHttpError(err))
+            res.status(err.status).json(formatError(err, req));
+          else next(err);
+        },
+      );
+    });
+    expect(await json('/users/2')).toEqual([
+      404,
+      {
+        success: false,
+        error: {code: 'NotFoundError', message: 'User not found'},
+      },
+    ]);
+  });
+});
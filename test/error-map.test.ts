@@ -0,0 +1,103 @@
+import express from 'express';
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  BadRequestError,
+  ConflictError,
+  HttpError,
+  NotFoundError,
+  globalErrorHandler,
+  mapError,
+  registerErrorMapper,
+} from '../src';
+import {serve} from './helpers';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+class DbError extends Error {
+  constructor(readonly code: string) {
+    super(`Database error ${code}`);
+  }
+}
+class MissingRowError extends DbError {}
+
+const exposed = (type: string) =>
+  Object.assign(new Error(`Failed: ${type}`), {
+    type,
+    status: 400,
+    expose: true,
+  });
+
+describe('registerErrorMapper', () => {
+  it('maps errors through classes and predicates, latest first', () => {
+    expect(mapError(new DbError('42P01'))).toBeUndefined();
+
+    registerErrorMapper(DbError, () => new BadRequestError('Bad query'));
+    registerErrorMapper<DbError>(
+      err => err instanceof DbError && err.code === '23505',
+      () => new ConflictError('Already exists'),
+    );
+    registerErrorMapper(MissingRowError, () => new NotFoundError('No row'));
+
+    expect(mapError(new DbError('42P01'))).toBeInstanceOf(BadRequestError);
+    expect(mapError(new DbError('23505'))).toBeInstanceOf(ConflictError);
+    expect(mapError(new MissingRowError('P0002'))).toBeInstanceOf(
+      NotFoundError,
+    );
+    expect(mapError('not an error')).toBeUndefined();
+  });
+
+  it('keeps the original error as cause unless the mapper set one', () => {
+    const original = new DbError('23505');
+    expect(mapError(original)?.cause).toBe(original);
+
+    class LockError extends Error {}
+    const inner = new Error('lock timeout');
+    registerErrorMapper(LockError, () =>
+      new ConflictError('Busy').causedBy(inner),
+    );
+    expect(mapError(new LockError())?.cause).toBe(inner);
+  });
+
+  it('maps body-parser errors by own types only', () => {
+    const tooLarge = Object.assign(exposed('entity.too.large'), {
+      status: 413,
+      limit: 100,
+    });
+    const mapped = mapError(tooLarge);
+    expect(mapped?.status).toBe(413);
+    expect(mapped?.detail).toEqual({limit: 100});
+
+    for (const type of ['constructor', 'toString', '__proto__']) {
+      const error = mapError(exposed(type));
+      expect(error, type).toBeInstanceOf(HttpError);
+      expect(error?.status).toBe(400);
+      expect(error?.msg).toBe(`Failed: ${type}`);
+    }
+  });
+
+  it('sends mapped errors from globalErrorHandler', async () => {
+    registerErrorMapper(DbError, () => new ConflictError('Already exists'));
+    server = await serve(app => {
+      app.use(express.json());
+      app.post('/rows', () => {
+        throw new DbError('23505');
+      });
+      app.use(globalErrorHandler({isDev: false}));
+    });
+    const post = (body: string) =>
+      fetch(`${server!.url}/rows`, {
+        method: 'POST',
+        headers: {'Content-Type': 'application/json'},
+        body,
+      });
+
+    const malformed = await post('{');
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).message).toBe('Malformed request body');
+
+    const conflict = await post('{}');
+    expect(conflict.status).toBe(409);
+    expect((await conflict.json()).message).toBe('Already exists');
+  });
+});
@@ -0,0 +1,67 @@
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {afterAll, afterEach, beforeAll, describe, expect, it} from 'vitest';
+import {FileRes, globalErrorHandler, handler} from '../src';
+import {serve} from './helpers';
+
+let dir: string;
+let root: string;
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'exutile-file-'));
+  root = join(dir, 'uploads');
+  mkdirSync(root);
+  writeFileSync(join(root, 'invoice.pdf'), 'pdf');
+  writeFileSync(join(dir, 'secret.txt'), 'secret');
+});
+afterAll(() => rmSync(dir, {recursive: true, force: true}));
+afterEach(() => server?.close());
+
+const start = () =>
+  serve(app => {
+    app.get(
+      '/files/:name',
+      handler(req => new FileRes(req.params.name, {root})),
+    );
+    app.get(
+      '/absolute/:name',
+      handler(req => new FileRes(join(root, req.params.name), {root})),
+    );
+    app.use(globalErrorHandler({isDev: false}));
+  }).then(started => (server = started));
+
+describe('FileRes', () => {
+  it('sends files inside the root as attachments', async () => {
+    const {url} = await start();
+    const res = await fetch(`${url}/files/invoice.pdf`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-disposition')).toBe(
+      'attachment; filename="invoice.pdf"',
+    );
+    expect(await res.text()).toBe('pdf');
+    expect((await fetch(`${url}/absolute/invoice.pdf`)).status).toBe(200);
+  });
+
+  it('rejects paths escaping the root', async () => {
+    const {url} = await start();
+    for (const path of [
+      '/files/..%2Fsecret.txt',
+      '/files/..%2F..%2F..%2F..%2F..%2Fetc%2Fhostname',
+      '/absolute/..%2Fsecret.txt',
+    ]) {
+      const res = await fetch(url + path);
+      expect(res.status).toBe(403);
+      expect(await res.text()).not.toContain('secret');
+    }
+  });
+
+  it('sends NotFoundError for missing files', async () => {
+    const {url} = await start();
+    const res = await fetch(`${url}/files/missing.pdf`);
+    expect(res.status).toBe(404);
+    expect(res.headers.get('content-disposition')).toBeNull();
+    expect((await res.json()).message).toBe('File not found');
+  });
+});
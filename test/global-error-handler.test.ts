@@ -0,0 +1,112 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {
+  handler,
+  NotFoundError,
+  ConflictError,
+  TooManyRequestsError,
+  globalErrorHandler,
+} from '../src';
+import {serve} from './helpers';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+describe('globalErrorHandler', () => {
+  it('sends HttpError bodies', async () => {
+    server = await serve(app => {
+      app.get('/', handler(() => Promise.reject(new NotFoundError('nope'))));
+      app.use(globalErrorHandler({isDev: false}));
+    });
+    const res = await fetch(server.url);
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({
+      status: 404,
+      error: 'NotFoundError',
+      message: 'nope',
+    });
+  });
+
+  it('hides unknown errors outside dev mode and logs them', async () => {
+    const write = vi.fn();
+    server = await serve(app => {
+      app.get(
+        '/',
+        handler(() => {
+          throw new Error('secret');
+        }),
+      );
+      app.use(globalErrorHandler({isDev: false, write}));
+    });
+    const res = await fetch(server.url);
+    expect(res.status).toBe(500);
+    expect((await res.json()).message).toBe('Something went wrong');
+    expect(write).toHaveBeenCalledOnce();
+    expect(write.mock.calls[0][0].message).toBe('secret');
+  });
+
+  it('sends problem details with status headers and codes', async () => {
+    server = await serve(app => {
+      app.get(
+        '/',
+        handler(() => {
+          throw new TooManyRequestsError('slow down', undefined, 30);
+        }),
+      );
+      app.get(
+        '/conflict',
+        handler(() => {
+          throw new ConflictError('taken').withCode('EMAIL_TAKEN');
+        }),
+      );
+      app.use(globalErrorHandler({isDev: false, format: 'problem'}));
+    });
+    let res = await fetch(server.url);
+    expect(res.status).toBe(429);
+    expect(res.headers.get('content-type')).toMatch('application/problem+json');
+    expect(res.headers.get('retry-after')).toBe('30');
+    res = await fetch(`${server.url}/conflict`);
+    expect(await res.json()).toMatchObject({
+      type: 'about:blank',
+      title: 'Conflict',
+      status: 409,
+      detail: 'taken',
+      code: 'EMAIL_TAKEN',
+    });
+  });
+
+  it('calls next once per rejected handler', async () => {
+    let calls = 0;
+    server = await serve(app => {
+      app.get(
+        '/',
+        handler(async () => {
+          throw new NotFoundError('nope');
+        }),
+      );
+      app.use((err: unknown, _req: any, _res: any, next: any) => {
+        calls++;
+        next(err);
+      });
+      app.use(globalErrorHandler({isDev: false}));
+    });
+    expect((await fetch(server.url)).status).toBe(404);
+    expect(calls).toBe(1);
+  });
+
+  it('logs errors raised after the response was sent', async () => {
+    const write = vi.fn();
+    server = await serve(app => {
+      app.get(
+        '/',
+        handler(async (_req, res) => {
+          res.send('sent');
+          throw new Error('late');
+        }),
+      );
+      app.use(globalErrorHandler({isDev: false, write}));
+    });
+    const res = await fetch(server.url);
+    expect(await res.text()).toBe('sent');
+    await vi.waitFor(() => expect(write).toHaveBeenCalledOnce());
+  });
+});
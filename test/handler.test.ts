@@ -0,0 +1,90 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {GatewayTimeoutError, globalErrorHandler, handler} from '../src';
+import {serve} from './helpers';
+import type {NextFunction, Request, Response} from 'express';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('handler timeout', () => {
+  it('sends GatewayTimeoutError and ignores the late result', async () => {
+    let aborted = false;
+    server = await serve(app => {
+      app.get(
+        '/',
+        handler(
+          async (_req, _res, _next, signal) => {
+            await sleep(100);
+            aborted = signal.aborted;
+            return 'late';
+          },
+          {timeout: 20},
+        ),
+      );
+      app.use(globalErrorHandler({isDev: false}));
+    });
+    const res = await fetch(server.url);
+    expect(res.status).toBe(504);
+    expect((await res.json()).message).toBe('Request timed out');
+    await sleep(120);
+    expect(aborted).toBe(true);
+  });
+
+  it('closes a started response when the timeout passes', async () => {
+    const errors: unknown[] = [];
+    server = await serve(app => {
+      app.get(
+        '/',
+        handler(
+          async (_req, res, _next, signal) => {
+            res.status(200).type('text').write('partial');
+            await new Promise(resolve =>
+              signal.addEventListener('abort', resolve),
+            );
+          },
+          {timeout: 50},
+        ),
+      );
+      app.use(globalErrorHandler({write: error => errors.push(error)}));
+    });
+    const res = await fetch(server.url);
+    expect(res.status).toBe(200);
+    await expect(res.text()).rejects.toThrow();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(GatewayTimeoutError);
+  });
+
+  it('ignores next calls of the handler after the timeout', async () => {
+    const reached: unknown[] = [];
+    server = await serve(app => {
+      app.get(
+        '/',
+        handler(
+          async (_req, _res, next) => {
+            await sleep(100);
+            next(new Error('late failure'));
+          },
+          {timeout: 20},
+        ),
+      );
+      app.use(globalErrorHandler({isDev: false}));
+      // Reached by a late `next` once the timeout error has been handled
+      app.use(
+        (error: unknown, _req: Request, _res: Response, next: NextFunction) => {
+          reached.push(error);
+          next();
+        },
+      );
+      app.use((_req: Request, _res: Response, next: NextFunction) => {
+        reached.push('route');
+        next();
+      });
+    });
+    const res = await fetch(server.url);
+    expect(res.status).toBe(504);
+    await sleep(150);
+    expect(reached).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import express from 'express';
+import type {AddressInfo} from 'net';
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  checkHealth,
+  gracefulShutdown,
+  healthRouter,
+  isShuttingDown,
+  registerHealthCheck,
+  registerShutdownHook,
+} from '../src';
+import {serve} from './helpers';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('health checks', () => {
+  it('reports up, degraded and down', async () => {
+    registerHealthCheck('database', () => true);
+    registerHealthCheck('cache', () => false, {critical: false});
+    let report = await checkHealth({isDev: true});
+    expect(report.status).toBe('degraded');
+    expect(report.checks.database).toMatchObject({
+      status: 'up',
+      critical: true,
+    });
+    expect(report.checks.cache).toMatchObject({
+      status: 'down',
+      critical: false,
+      error: 'Check returned false',
+    });
+
+    registerHealthCheck('cache', async () => {});
+    expect((await checkHealth()).status).toBe('up');
+
+    registerHealthCheck('database', () => {
+      throw new Error('Connection refused');
+    });
+    report = await checkHealth();
+    expect(report.status).toBe('down');
+    expect(report.checks.database.error).toBeUndefined();
+  });
+
+  it('fails checks that time out', async () => {
+    registerHealthCheck('database', () => sleep(1000), {timeout: 20});
+    registerHealthCheck('cache', () => sleep(1000));
+    const report = await checkHealth({timeout: 30, isDev: true});
+    expect(report.checks.database).toMatchObject({
+      status: 'down',
+      error: 'Timed out after 20ms',
+    });
+    expect(report.checks.cache.error).toBe('Timed out after 30ms');
+    expect(report.checks.database.latency).toBeLessThan(500);
+  });
+
+  it('serves liveness and readiness', async () => {
+    registerHealthCheck('database', () => true);
+    registerHealthCheck('cache', () => true);
+    server = await serve(app => app.use(healthRouter()));
+
+    const live = await fetch(`${server.url}/health/live`);
+    expect(live.status).toBe(200);
+    expect(live.headers.get('cache-control')).toBe('no-store');
+    expect((await live.json()).result).toEqual({status: 'up', checks: {}});
+
+    let ready = await fetch(`${server.url}/health/ready`);
+    expect(ready.status).toBe(200);
+    expect((await ready.json()).result.status).toBe('up');
+
+    registerHealthCheck('database', () => false);
+    ready = await fetch(`${server.url}/health/ready`);
+    expect(ready.status).toBe(503);
+    expect((await ready.json()).message).toBe('Service is unavailable');
+  });
+});
+
+describe('gracefulShutdown', () => {
+  it('fails readiness, drains requests and runs hooks in reverse', async () => {
+    registerHealthCheck('database', () => true);
+    const steps: string[] = [];
+    const app = express();
+    app.use(healthRouter());
+    app.get('/slow', async (_req, res) => {
+      await sleep(100);
+      steps.push('request');
+      res.send('done');
+    });
+    const http = app.listen(0);
+    await new Promise(resolve => http.once('listening', resolve));
+    const url = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+
+    registerShutdownHook('database', () => steps.push('database'));
+    registerShutdownHook('queue', () => {
+      steps.push('queue');
+      throw new Error('Queue busy');
+    });
+    registerShutdownHook('cache', async () => {
+      await sleep(10);
+      steps.push('cache');
+    });
+    const shutdown = gracefulShutdown(http, {signals: [], delay: 50});
+
+    const slow = fetch(`${url}/slow`).then(res => res.text());
+    await sleep(10);
+    const done = shutdown();
+    expect(isShuttingDown()).toBe(true);
+    expect(shutdown()).toBe(done);
+
+    const ready = await fetch(`${url}/health/ready`);
+    expect(ready.status).toBe(503);
+    expect(ready.headers.get('connection')).toBe('close');
+    expect((await ready.json()).message).toBe('Service is shutting down');
+
+    expect(await slow).toBe('done');
+    const error = await done.catch(error => error);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.errors.map((e: Error) => e.message)).toEqual([
+      'Shutdown hook queue failed.',
+    ]);
+    expect(steps).toEqual(['request', 'cache', 'queue', 'database']);
+    expect(http.listening).toBe(false);
+  });
+});
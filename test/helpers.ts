@@ -0,0 +1,40 @@
+import express from 'express';
+import pkg from 'express/package.json';
+import type {Express} from 'express';
+import type {AddressInfo} from 'net';
+
+/** Major version of the Express package under test. */
+export const expressVersion = Number(pkg.version.split('.')[0]);
+
+/**
+ * Starts an app on a random port.
+ * @param {Express} app - The app to serve.
+ * @returns {Promise<{url: string, close: () => Promise<void>}>} - The base URL and a close function.
+ */
+export const listen = (
+  app: Express,
+): Promise<{url: string; close: () => Promise<void>}> =>
+  new Promise(resolve => {
+    const server = app.listen(0, () => {
+      const {port} = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () =>
+          new Promise(done => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+
+/**
+ * Creates an app with the given setup and serves it for one test.
+ * @param {(app: Express) => void} setup - Registers routes and middleware.
+ * @returns {Promise<{url: string, close: () => Promise<void>}>} - The base URL and a close function.
+ */
+export const serve = (setup: (app: Express) => void) => {
+  const app = express();
+  setup(app);
+  return listen(app);
+};
@@ -0,0 +1,165 @@
+import express from 'express';
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  ApiRes,
+  BadRequestError,
+  globalErrorHandler,
+  handler,
+  idempotency,
+} from '../src';
+import {serve} from './helpers';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const post = (url: string, key: string, signal?: AbortSignal) =>
+  fetch(url, {
+    method: 'POST',
+    headers: {'Idempotency-Key': key, 'Content-Type': 'application/json'},
+    body: JSON.stringify({item: 'book'}),
+    signal,
+  });
+
+describe('idempotency', () => {
+  it('keeps the key locked when the client disconnects mid-request', async () => {
+    let executions = 0;
+    let release!: () => void;
+    const running = new Promise<void>(resolve => (release = resolve));
+    server = await serve(app => {
+      app.use(express.json());
+      app.post(
+        '/orders',
+        idempotency(),
+        handler(async () => {
+          executions++;
+          await running;
+          return ApiRes.created({id: executions});
+        }),
+      );
+      app.use(globalErrorHandler());
+    });
+    const url = `${server.url}/orders`;
+
+    const controller = new AbortController();
+    const first = post(url, 'k1', controller.signal).catch(() => undefined);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    controller.abort();
+    await first;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect((await post(url, 'k1')).status).toBe(409);
+
+    release();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const replay = await post(url, 'k1');
+    expect(replay.status).toBe(201);
+    expect(replay.headers.get('idempotent-replayed')).toBe('true');
+    expect((await replay.json()).result).toEqual({id: 1});
+    expect(executions).toBe(1);
+  });
+
+  it('replays non-JSON bodies with their content type', async () => {
+    let executions = 0;
+    server = await serve(app => {
+      app.use(express.json());
+      app.post(
+        '/export',
+        idempotency(),
+        handler((_req, res) => {
+          executions++;
+          res.status(201).type('csv').send(`id\n${executions}\n`);
+        }),
+      );
+    });
+    const url = `${server.url}/export`;
+
+    const first = await post(url, 'k2');
+    const replay = await post(url, 'k2');
+    expect(replay.status).toBe(201);
+    expect(replay.headers.get('content-type')).toBe(
+      first.headers.get('content-type'),
+    );
+    expect(replay.headers.get('idempotent-replayed')).toBe('true');
+    expect(await replay.text()).toBe(await first.text());
+    expect(executions).toBe(1);
+  });
+
+  it('forgets the key when the request fails', async () => {
+    let executions = 0;
+    server = await serve(app => {
+      app.use(express.json());
+      app.post(
+        '/orders',
+        idempotency(),
+        handler(() => {
+          executions++;
+          if (executions === 1) throw new BadRequestError('Out of stock');
+          return ApiRes.created({id: executions});
+        }),
+      );
+      app.use(globalErrorHandler());
+    });
+    const url = `${server.url}/orders`;
+
+    expect((await post(url, 'k3')).status).toBe(400);
+    expect((await post(url, 'k3')).status).toBe(201);
+    expect(executions).toBe(2);
+  });
+
+  it('does not store bodies over maxBodySize', async () => {
+    let executions = 0;
+    server = await serve(app => {
+      app.use(express.json());
+      app.post(
+        '/export',
+        idempotency({maxBodySize: 1024}),
+        handler((_req, res) => {
+          executions++;
+          res.status(201).type('csv').write('x'.repeat(1000));
+          res.end('x'.repeat(executions * 100));
+        }),
+      );
+    });
+    const url = `${server.url}/export`;
+
+    expect((await (await post(url, 'k4')).text()).length).toBe(1100);
+    const retry = await post(url, 'k4');
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('idempotent-replayed')).toBeNull();
+    expect((await retry.text()).length).toBe(1200);
+    expect(executions).toBe(2);
+  });
+
+  it('releases the key of event streams at once', async () => {
+    let executions = 0;
+    let release!: () => void;
+    const open = new Promise<void>(resolve => (release = resolve));
+    server = await serve(app => {
+      app.use(express.json());
+      app.post(
+        '/events',
+        idempotency(),
+        handler(async function* () {
+          executions++;
+          yield {event: 'started', data: executions};
+          await open;
+        }),
+      );
+    });
+    const url = `${server.url}/events`;
+
+    const first = await post(url, 'k5');
+    expect(first.headers.get('content-type')).toContain('text/event-stream');
+    const reader = first.body!.getReader();
+    await reader.read();
+
+    // Not a 409 while the first stream is open, and never a replay
+    const second = await post(url, 'k5');
+    expect(second.status).toBe(200);
+    expect(second.headers.get('idempotent-replayed')).toBeNull();
+    release();
+    expect(await second.text()).toContain('data: 2');
+    await reader.cancel();
+    expect(executions).toBe(2);
+  });
+});
@@ -0,0 +1,8 @@
+import {describe, expect, it} from 'vitest';
+import {expressVersion} from './helpers';
+
+describe('express matrix', () => {
+  it('runs against the aliased Express version', () => {
+    expect(expressVersion).toBe(Number(process.env.EXPRESS_MAJOR));
+  });
+});
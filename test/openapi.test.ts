@@ -0,0 +1,145 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  defineRoute,
+  generateOpenApi,
+  serveOpenApi,
+} from '../src';
+import {serve} from './helpers';
+import type {JsonSchema, StandardSchema} from '../src';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+/** A Standard Schema exposing its JSON Schema like Standard JSON Schema libraries. */
+const schema = (json: JsonSchema): StandardSchema =>
+  ({
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value: unknown) => ({value}),
+      jsonSchema: {input: () => json, output: () => json},
+    },
+  }) as StandardSchema;
+
+const User = schema({
+  type: 'object',
+  required: ['id', 'name'],
+  properties: {id: {type: 'string'}, name: {type: 'string'}},
+});
+
+const routes = {
+  getUser: defineRoute({
+    method: 'get',
+    path: '/users/:id',
+    schemas: {params: schema({type: 'object'}), result: User},
+    errors: [NotFoundError],
+    summary: 'Get a user',
+    tags: ['users'],
+  }),
+  listUsers: defineRoute({
+    method: 'get',
+    path: '/users',
+    schemas: {
+      query: schema({
+        type: 'object',
+        required: ['page'],
+        properties: {page: {type: 'integer'}, q: {type: 'string'}},
+      }),
+      result: schema({type: 'array', items: User}),
+    },
+  }),
+  createUser: defineRoute({
+    method: 'post',
+    path: '/users',
+    status: 201,
+    schemas: {body: User, result: User},
+    errors: [BadRequestError, ConflictError],
+  }),
+  any: defineRoute({method: 'all', path: '/any'}),
+};
+
+const bodySchema = (doc: any, path: string, method: string, status: number) =>
+  Object.values(doc.paths[path][method].responses[status].content)[0] as any;
+
+describe('generateOpenApi', () => {
+  it('documents routes, parameters and responses', () => {
+    const doc = generateOpenApi(routes, {
+      info: {title: 'Users API', version: '2.0.0'},
+      prefix: '/api/',
+    });
+    expect(doc).toMatchSnapshot();
+  });
+
+  it('documents the field errors of validation errors', () => {
+    const doc = generateOpenApi(routes);
+    const {schema} = bodySchema(doc, '/users/{id}', 'get', 400);
+    expect(schema.allOf[1]).toEqual({
+      properties: {
+        status: {const: 400},
+        error: {const: 'BadRequestError'},
+        detail: {
+          type: 'object',
+          required: ['errors'],
+          properties: {
+            errors: {
+              type: 'array',
+              items: {$ref: '#/components/schemas/FieldError'},
+            },
+          },
+        },
+      },
+      required: ['detail'],
+    });
+    expect(doc.components.schemas.FieldError.required).toEqual([
+      'path',
+      'message',
+    ]);
+
+    // Declared errors of the same status keep their own body
+    const shared = bodySchema(doc, '/users', 'post', 400).schema;
+    expect(shared.anyOf).toHaveLength(2);
+    expect(shared.anyOf[0].allOf[1].properties.error).toEqual({
+      const: 'BadRequestError',
+    });
+    expect(shared.anyOf[1].allOf[1].required).toEqual(['detail']);
+
+    // No schemas, no validation error
+    const none: any = generateOpenApi([
+      defineRoute({method: 'get', path: '/ping'}),
+    ]);
+    expect(Object.keys(none.paths['/ping'].get.responses)).toEqual([
+      '200',
+      '500',
+    ]);
+  });
+
+  it('documents problem details with an errors extension', () => {
+    const doc: any = generateOpenApi(routes, {
+      format: 'problem',
+      validationStatus: 422,
+    });
+    const content = doc.paths['/users/{id}'].get.responses[422].content;
+    const refined = content['application/problem+json'].schema.allOf[1];
+    expect(refined.required).toEqual(['errors']);
+    expect(refined.properties.errors.items).toEqual({
+      $ref: '#/components/schemas/FieldError',
+    });
+  });
+});
+
+describe('serveOpenApi', () => {
+  it('serves the generated document', async () => {
+    server = await serve(app =>
+      app.use(serveOpenApi(routes, {path: '/docs/openapi.json'})),
+    );
+    const res = await fetch(`${server.url}/docs/openapi.json`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(
+      JSON.parse(JSON.stringify(generateOpenApi(routes))),
+    );
+    expect((await fetch(`${server.url}/openapi.json`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,36 @@
+import {describe, expect, it} from 'vitest';
+import {BadRequestError, cursorPage, offsetPage} from '../src';
+import {createMocks} from '../src/testing';
+
+const page = (url: string) => offsetPage(createMocks({url}).req);
+
+describe('offsetPage', () => {
+  it('parses the page and clamps the limit', () => {
+    expect(page('/users?page=3&limit=10')).toMatchObject({
+      page: 3,
+      limit: 10,
+      offset: 20,
+    });
+    expect(
+      offsetPage(createMocks({url: '/users?limit=500'}).req, {maxLimit: 50})
+        .limit,
+    ).toBe(50);
+  });
+
+  it('rejects values that are not safe positive integers', () => {
+    for (const url of [
+      '/users?page=0',
+      '/users?page=-1',
+      '/users?page=1.5',
+      '/users?page=abc',
+      '/users?page=99999999999999999999',
+      '/users?limit=99999999999999999999',
+      `/users?page=${Number.MAX_SAFE_INTEGER}&limit=10`,
+    ]) {
+      expect(() => page(url), url).toThrow(BadRequestError);
+    }
+    expect(() =>
+      cursorPage(createMocks({url: '/feed?limit=99999999999999999999'}).req),
+    ).toThrow(BadRequestError);
+  });
+});
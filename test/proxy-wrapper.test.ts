@@ -0,0 +1,100 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  Get,
+  ApiRes,
+  Container,
+  Controller,
+  UseGuards,
+  Injectable,
+  buildRouter,
+  proxyWrapper,
+  NotFoundError,
+  UseInterceptors,
+  UnAuthorizedError,
+  globalErrorHandler,
+} from '../src';
+import {serve} from './helpers';
+import type {Request} from 'express';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+class Users {
+  private prefix = 'user';
+
+  async get(req: Request) {
+    if (req.params.id === 'x') throw new NotFoundError('nope');
+    return ApiRes.ok(this._name(req.params.id));
+  }
+
+  sync() {
+    throw new Error('sync');
+  }
+
+  _name(id: string) {
+    return `${this.prefix}-${id}`;
+  }
+}
+
+const signedIn = (req: Request) => {
+  if (!req.get('x-user')) throw new UnAuthorizedError('Sign in required');
+  return true;
+};
+
+@Controller('/admin')
+@UseGuards(signedIn)
+@Injectable()
+class Admin {
+  @Get('/')
+  @UseGuards(req => req.get('x-user') === 'admin')
+  @UseInterceptors({
+    after: result => ApiRes.ok({wrapped: (result as ApiRes).result}),
+  })
+  async index() {
+    return ApiRes.ok(this.helper());
+  }
+
+  helper() {
+    return 'admin';
+  }
+}
+
+describe('proxyWrapper', () => {
+  it('wraps methods and forwards errors', async () => {
+    const users = proxyWrapper(Users);
+    server = await serve(app => {
+      app.get('/users/:id', users.get);
+      app.get('/sync', users.sync);
+      app.use(globalErrorHandler({isDev: false}));
+    });
+    let res = await fetch(`${server.url}/users/1`);
+    expect((await res.json()).result).toBe('user-1');
+    res = await fetch(`${server.url}/users/x`);
+    expect(res.status).toBe(404);
+    res = await fetch(`${server.url}/sync`);
+    expect(res.status).toBe(500);
+  });
+
+  it('leaves helpers unwrapped and rejects overrides', () => {
+    const users = proxyWrapper(Users);
+    expect(users._name('1')).toBe('user-1');
+    expect(() => {
+      (users as any).get = () => undefined;
+    }).toThrow('Overriding methods and properties is not allowed.');
+    const admin = proxyWrapper(Admin) as any;
+    expect(admin.helper()).toBe('admin');
+  });
+
+  it('runs guards and interceptors', async () => {
+    server = await serve(app => {
+      app.use(buildRouter(Admin, new Container()));
+      app.use(globalErrorHandler({isDev: false}));
+    });
+    const get = (user?: string) =>
+      fetch(`${server!.url}/admin`, {headers: user ? {'x-user': user} : {}});
+    expect((await get()).status).toBe(401);
+    expect((await get('bob')).status).toBe(403);
+    const res = await get('admin');
+    expect((await res.json()).result).toEqual({wrapped: 'admin'});
+  });
+});
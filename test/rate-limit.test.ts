@@ -0,0 +1,221 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {MemoryStore, globalErrorHandler, rateLimit} from '../src';
+import {serve} from './helpers';
+import type {RateLimitOptions, RateLimitState, Store} from '../src';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** A store with network latency, serializing `update` per key like a Redis script. */
+const remoteStore = (): Store<RateLimitState> & {updates: number} => {
+  const memory = new MemoryStore<RateLimitState>();
+  const locks = new Map<string, Promise<unknown>>();
+  return {
+    updates: 0,
+    get: async key => (await sleep(5), memory.get(key)),
+    set: async (key, value, ttl) => (
+      await sleep(5), memory.set(key, value, ttl)
+    ),
+    delete: async key => memory.delete(key),
+    update(key, fn, ttl) {
+      this.updates++;
+      const run = (locks.get(key) ?? Promise.resolve()).then(async () => {
+        await sleep(5);
+        return memory.update(key, fn, ttl);
+      });
+      locks.set(key, run);
+      return run;
+    },
+  };
+};
+
+const burst = async (store?: Store<RateLimitState>) => {
+  server = await serve(app => {
+    app.get('/', rateLimit({limit: 3, window: 60_000, store}), (_req, res) => {
+      res.send('ok');
+    });
+    app.use(globalErrorHandler());
+  });
+  const responses = await Promise.all(
+    Array.from({length: 10}, () => fetch(server!.url)),
+  );
+  return responses.map(res => res.status).sort();
+};
+
+describe('rateLimit', () => {
+  it('limits concurrent requests with the default store', async () => {
+    const statuses = await burst();
+    expect(statuses.filter(status => status === 200)).toHaveLength(3);
+    expect(statuses.filter(status => status === 429)).toHaveLength(7);
+  });
+
+  it('updates shared stores atomically', async () => {
+    const store = remoteStore();
+    const statuses = await burst(store);
+    expect(statuses.filter(status => status === 200)).toHaveLength(3);
+    expect(store.updates).toBe(10);
+  });
+
+  it('sends rate limit headers', async () => {
+    server = await serve(app => {
+      app.get('/', rateLimit({limit: 2, window: 10_000}), (_req, res) => {
+        res.send('ok');
+      });
+      app.use(globalErrorHandler());
+    });
+    await fetch(server.url);
+    const res = await fetch(server.url);
+    expect(res.headers.get('ratelimit-remaining')).toBe('0');
+    expect(res.headers.get('ratelimit-policy')).toBe('2;w=10');
+    const limited = await fetch(server.url);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('10');
+  });
+});
+
+describe('rateLimit algorithms', () => {
+  const BASE = Date.UTC(2026, 0, 1);
+  /** Moves the clock to `ms` after the start of the test. */
+  const at = (ms: number) => vi.setSystemTime(BASE + ms);
+
+  // Only `Date` is faked, the HTTP server and client keep real timers
+  beforeEach(() => {
+    vi.useFakeTimers({toFake: ['Date']});
+    at(0);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  const start = async (options: Omit<RateLimitOptions, 'key'>) => {
+    server = await serve(app => {
+      app.get(
+        '/',
+        rateLimit({...options, key: () => 'client'}),
+        (_req, res) => {
+          res.send('ok');
+        },
+      );
+      app.use(globalErrorHandler());
+    });
+    return async () => {
+      const res = await fetch(server!.url);
+      return {
+        status: res.status,
+        remaining: res.headers.get('ratelimit-remaining'),
+        reset: res.headers.get('ratelimit-reset'),
+        retryAfter: res.headers.get('retry-after'),
+      };
+    };
+  };
+
+  it('resets fixed windows at the window end', async () => {
+    const hit = await start({limit: 2, window: 10_000});
+    expect((await hit()).remaining).toBe('1');
+    expect((await hit()).remaining).toBe('0');
+    at(4_000);
+    expect(await hit()).toEqual({
+      status: 429,
+      remaining: '0',
+      reset: '6',
+      retryAfter: '6',
+    });
+    at(10_000);
+    expect((await hit()).status).toBe(200);
+  });
+
+  it('weights the previous window in sliding windows', async () => {
+    const hit = await start({
+      limit: 4,
+      window: 100_000,
+      algorithm: 'sliding-window',
+    });
+    for (let i = 0; i < 4; i++) expect((await hit()).status).toBe(200);
+    expect(await hit()).toEqual({
+      status: 429,
+      remaining: '0',
+      reset: '100',
+      retryAfter: '100',
+    });
+
+    // 20% into the next window, the previous 4 requests weigh 3.2
+    at(120_000);
+    expect(await hit()).toMatchObject({status: 200, remaining: '0'});
+    // 3.2 + 1 is over the limit until the weight drops to 0.75, 5s later
+    expect(await hit()).toMatchObject({status: 429, retryAfter: '5'});
+    at(124_000);
+    expect(await hit()).toMatchObject({status: 429, retryAfter: '1'});
+    at(125_001);
+    expect((await hit()).status).toBe(200);
+
+    // Two windows later nothing of the old windows counts
+    at(300_000);
+    expect(await hit()).toMatchObject({status: 200, remaining: '3'});
+  });
+
+  it('refills token buckets continuously', async () => {
+    const hit = await start({
+      limit: 4,
+      window: 8_000,
+      algorithm: 'token-bucket',
+    });
+    for (let i = 0; i < 4; i++) expect((await hit()).status).toBe(200);
+    // Half a token per second: the next one is 2s away, a full bucket 8s
+    expect(await hit()).toEqual({
+      status: 429,
+      remaining: '0',
+      reset: '8',
+      retryAfter: '2',
+    });
+    at(1_000);
+    expect(await hit()).toMatchObject({status: 429, retryAfter: '1'});
+    at(2_000);
+    expect(await hit()).toMatchObject({status: 200, remaining: '0'});
+    at(100_000);
+    expect(await hit()).toMatchObject({
+      status: 200,
+      remaining: '3',
+      reset: '2',
+    });
+  });
+
+  it('uses store.update when the store has one', async () => {
+    const memory = new MemoryStore<RateLimitState>();
+    const calls: string[] = [];
+    const ttls: number[] = [];
+    const store: Store<RateLimitState> = {
+      get: key => (calls.push('get'), memory.get(key)),
+      set: (key, value, ttl) => (
+        calls.push('set'), memory.set(key, value, ttl)
+      ),
+      delete: key => memory.delete(key),
+      update: (key, fn, ttl) => {
+        calls.push('update');
+        ttls.push(ttl);
+        return memory.update(key, fn, ttl);
+      },
+    };
+    const hit = await start({limit: 1, window: 5_000, store});
+    expect((await hit()).status).toBe(200);
+    expect((await hit()).status).toBe(429);
+    expect(calls).toEqual(['update', 'update']);
+    expect(ttls).toEqual([10_000, 10_000]);
+    expect(memory.get('rl:client')).toEqual({count: 1, reset: BASE + 5_000});
+  });
+
+  it('falls back to get and set without store.update', async () => {
+    const memory = new MemoryStore<RateLimitState>();
+    const calls: string[] = [];
+    const store: Store<RateLimitState> = {
+      get: key => (calls.push('get'), memory.get(key)),
+      set: (key, value, ttl) => (
+        calls.push('set'), memory.set(key, value, ttl)
+      ),
+      delete: key => memory.delete(key),
+    };
+    const hit = await start({limit: 1, window: 5_000, store});
+    expect((await hit()).status).toBe(200);
+    expect((await hit()).status).toBe(429);
+    expect(calls).toEqual(['get', 'set', 'get', 'set']);
+  });
+});
@@ -0,0 +1,96 @@
+import express from 'express';
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  Container,
+  InjectionToken,
+  getRequestId,
+  handler,
+  requestId,
+} from '../src';
+import {serve} from './helpers';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+type Tx = {id: number; disposed: boolean};
+const Transaction = new InjectionToken<Tx>('Transaction');
+
+describe('request scope', () => {
+  it('keeps request values until the handler settles after a client abort', async () => {
+    const events: string[] = [];
+    let release!: () => void;
+    const running = new Promise<void>(resolve => (release = resolve));
+    let ids = 0;
+    const container = new Container().register(Transaction, {
+      scope: 'request',
+      useFactory: () => ({id: ++ids, disposed: false}),
+      dispose: tx => {
+        tx.disposed = true;
+        events.push('dispose');
+      },
+    });
+    server = await serve(app => {
+      app.use(container.requestScope());
+      app.post(
+        '/orders',
+        handler(async () => {
+          const tx = await container.resolve(Transaction);
+          await running;
+          events.push(tx.disposed ? 'query on disposed' : 'query');
+          return {id: tx.id};
+        }),
+      );
+    });
+
+    const controller = new AbortController();
+    const request = fetch(`${server.url}/orders`, {
+      method: 'POST',
+      signal: controller.signal,
+    }).catch(() => undefined);
+    await sleep(50);
+    controller.abort();
+    await request;
+    await sleep(50);
+    expect(events).toEqual([]);
+
+    release();
+    await sleep(50);
+    expect(events).toEqual(['query', 'dispose']);
+  });
+
+  it('shares request values and the request id across body parsers', async () => {
+    let ids = 0;
+    const container = new Container().register(Transaction, {
+      scope: 'request',
+      useFactory: () => ({id: ++ids, disposed: false}),
+    });
+    server = await serve(app => {
+      app.use(requestId());
+      app.use(container.requestScope());
+      app.use(express.json());
+      app.post(
+        '/orders',
+        handler(async req => {
+          const [a, b] = await Promise.all([
+            container.resolve(Transaction),
+            container.resolve(Transaction),
+          ]);
+          return {same: a === b, requestId: getRequestId(), body: req.body};
+        }),
+      );
+    });
+
+    const res = await fetch(`${server.url}/orders`, {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json', 'X-Request-Id': 'req-1'},
+      body: JSON.stringify({item: 'book'}),
+    });
+    expect(await res.json()).toEqual({
+      same: true,
+      requestId: 'req-1',
+      body: {item: 'book'},
+    });
+  });
+});
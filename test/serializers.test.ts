@@ -0,0 +1,68 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  ApiRes,
+  globalErrorHandler,
+  handler,
+  registerSerializer,
+  xmlSerializer,
+} from '../src';
+import {serve} from './helpers';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const BROWSER =
+  'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8';
+
+const start = async () => {
+  server = await serve(app => {
+    app.get(
+      '/users',
+      handler(() => ApiRes.ok([{id: 1, name: 'Alice'}])),
+    );
+    app.use(globalErrorHandler());
+  });
+  return (accept?: string) =>
+    fetch(`${server!.url}/users`, {headers: accept ? {Accept: accept} : {}});
+};
+
+const typeOf = (res: Response) =>
+  res.headers.get('content-type')?.split(';')[0];
+
+describe('content negotiation', () => {
+  it('keeps JSON the default for wildcards and browsers', async () => {
+    const get = await start();
+    for (const accept of [undefined, '*/*', BROWSER, 'text/html, */*;q=0.1']) {
+      const res = await get(accept);
+      expect(res.status).toBe(200);
+      expect(typeOf(res)).toBe('application/json');
+    }
+  });
+
+  it('picks another format only when it is preferred over JSON', async () => {
+    const get = await start();
+    expect(typeOf(await get('text/csv'))).toBe('text/csv');
+    expect(typeOf(await get('text/csv, application/json;q=0.5'))).toBe(
+      'text/csv',
+    );
+    expect(typeOf(await get('text/csv;q=0.5, application/json'))).toBe(
+      'application/json',
+    );
+    expect(typeOf(await get('text/csv;q=0.5, */*;q=0.5'))).toBe(
+      'application/json',
+    );
+    const csv = await get('text/csv');
+    expect(await csv.text()).toBe('id,name\r\n1,Alice');
+  });
+
+  it('serves XML only once registered', async () => {
+    const get = await start();
+    expect((await get('application/xml')).status).toBe(406);
+
+    registerSerializer(xmlSerializer);
+    const res = await get('application/xml');
+    expect(typeOf(res)).toBe('application/xml');
+    expect(await res.text()).toContain('<name>Alice</name>');
+    expect(typeOf(await get(BROWSER))).toBe('application/xml');
+  });
+});
@@ -0,0 +1,216 @@
+import {mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {afterAll, afterEach, beforeAll, describe, expect, it} from 'vitest';
+import {globalErrorHandler, serveStatic} from '../src';
+import {serve} from './helpers';
+
+let root: string;
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+const html = {accept: 'text/html'};
+const HASHED = [
+  'main.3f2a1b4c.css',
+  'chunk.5e8f9a0b1c2d3e4f.js',
+  'vendor-Ab3_9xYz.js',
+];
+const UNHASHED = [
+  'android-chrome-192x192.png',
+  'apple-touch-icon-180x180.png',
+  'favicon-1024x1024.png',
+  'backup-20240101.js',
+  'service-worker.js',
+  'jquery-3.7.1.min.js',
+];
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'exutile-static-'));
+  mkdirSync(join(root, 'assets'));
+  writeFileSync(join(root, 'index.html'), '<title>{{ title }}</title>');
+  writeFileSync(join(root, 'app.css'), 'body{}');
+  writeFileSync(join(root, 'index-BXk7a9Zq.js'), 'run()');
+  writeFileSync(join(root, 'app.js'), 'plain()');
+  writeFileSync(join(root, 'app.js.br'), 'brotli');
+  for (const name of [...HASHED, ...UNHASHED])
+    writeFileSync(join(root, name), '');
+});
+afterAll(() => rmSync(root, {recursive: true, force: true}));
+afterEach(() => server?.close());
+
+const start = () =>
+  serve(app => {
+    app.get('/api/users', (_req, res) => {
+      res.json([]);
+    });
+    app.use(serveStatic({path: root, render: () => ({title: 'Home'})}));
+    app.get('/users/:name', (req, res) => {
+      res.json({name: req.params.name});
+    });
+    app.use(globalErrorHandler({isDev: false}));
+  }).then(started => (server = started));
+
+describe('serveStatic', () => {
+  it('serves files with cache headers', async () => {
+    const {url} = await start();
+    let res = await fetch(`${url}/app.css`);
+    expect(await res.text()).toBe('body{}');
+    expect(res.headers.get('cache-control')).toBe('public, max-age=0');
+    res = await fetch(`${url}/index-BXk7a9Zq.js`);
+    expect(res.headers.get('cache-control')).toContain('immutable');
+  });
+
+  it('only caches names with a real hash as immutable', async () => {
+    const {url} = await start();
+    for (const name of HASHED) {
+      const res = await fetch(`${url}/${name}`);
+      expect(res.headers.get('cache-control'), name).toContain('immutable');
+    }
+    for (const name of UNHASHED) {
+      const res = await fetch(`${url}/${name}`);
+      expect(res.headers.get('cache-control'), name).toBe('public, max-age=0');
+    }
+  });
+
+  it('serves precompressed siblings', async () => {
+    const {url} = await start();
+    const res = await fetch(`${url}/app.js`, {
+      headers: {'accept-encoding': 'br'},
+    });
+    expect(res.headers.get('content-encoding')).toBe('br');
+  });
+
+  it('renders index.html for navigations', async () => {
+    const {url} = await start();
+    for (const path of ['/', '/deep/route', '/index.html']) {
+      const res = await fetch(url + path, {headers: html});
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe('<title>Home</title>');
+    }
+    const head = await fetch(`${url}/deep`, {method: 'HEAD', headers: html});
+    expect(head.status).toBe(200);
+  });
+
+  it('leaves other requests to later middleware', async () => {
+    const {url} = await start();
+    expect((await fetch(`${url}/api/users`)).status).toBe(200);
+    expect((await fetch(`${url}/api/none`, {headers: html})).status).toBe(404);
+    expect((await fetch(`${url}/deep/route`)).status).toBe(404);
+    const post = await fetch(`${url}/deep/route`, {
+      method: 'POST',
+      headers: html,
+    });
+    expect(post.status).toBe(404);
+  });
+
+  it('sends NotFoundError for missing assets', async () => {
+    const {url} = await start();
+    const res = await fetch(`${url}/missing.js`, {headers: html});
+    expect(res.status).toBe(404);
+    expect((await res.json()).message).toBe('Cannot find /missing.js');
+  });
+
+  it('treats dotted paths outside static folders as routes', async () => {
+    const {url} = await start();
+    const res = await fetch(`${url}/users/john.doe`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({name: 'john.doe'});
+    expect((await fetch(`${url}/files/v1.2`)).status).toBe(404);
+    for (const path of ['/users/john.doe', '/files/v1.2']) {
+      const page = await fetch(url + path, {headers: html});
+      expect(await page.text(), path).toBe('<title>Home</title>');
+    }
+    const asset = await fetch(`${url}/assets/old-chunk.js`, {headers: html});
+    expect(asset.status).toBe(404);
+    expect((await fetch(`${url}/assets/old-chunk.js`)).status).toBe(404);
+  });
+});
+
+describe('serveStatic templates', () => {
+  it('renders own keys only, escaped', async () => {
+    writeFileSync(
+      join(root, 'index.html'),
+      '<title>{{ title }}</title><script>window.config = {{config}}</script>' +
+        '{{constructor}}{{ toString }}{{missing}}',
+    );
+    try {
+      server = await serve(app => {
+        app.use(
+          serveStatic({
+            path: root,
+            render: () => ({
+              title: '<b>"Home"</b>',
+              config: {api: '</script><script>alert(1)'},
+            }),
+          }),
+        );
+        app.use(globalErrorHandler({isDev: false}));
+      });
+      const res = await fetch(`${server.url}/deep`, {headers: html});
+      expect(res.status).toBe(200);
+      expect(await res.text()).toBe(
+        '<title>&#60;b&#62;&#34;Home&#34;&#60;/b&#62;</title>' +
+          '<script>window.config = {"api":"\\u003c/script\\u003e\\u003cscript\\u003ealert(1)"}</script>' +
+          '{{constructor}}{{toString}}{{missing}}',
+      );
+    } finally {
+      writeFileSync(join(root, 'index.html'), '<title>{{ title }}</title>');
+    }
+  });
+
+  it('re-reads the template when it changes', async () => {
+    const {url} = await start();
+    expect(await (await fetch(url, {headers: html})).text()).toBe(
+      '<title>Home</title>',
+    );
+    writeFileSync(join(root, 'index.html'), '<h1>{{ title }}</h1>');
+    const later = new Date(Date.now() + 5000);
+    utimesSync(join(root, 'index.html'), later, later);
+    try {
+      expect(await (await fetch(url, {headers: html})).text()).toBe(
+        '<h1>Home</h1>',
+      );
+    } finally {
+      writeFileSync(join(root, 'index.html'), '<title>{{ title }}</title>');
+    }
+  });
+});
+
+describe('serveStatic apps', () => {
+  it('serves each app under its base', async () => {
+    const apps = mkdtempSync(join(tmpdir(), 'exutile-apps-'));
+    try {
+      for (const name of ['admin', 'web']) {
+        mkdirSync(join(apps, name));
+        writeFileSync(
+          join(apps, name, 'index.html'),
+          `<p>${name} {{ user }}</p>`,
+        );
+        writeFileSync(join(apps, name, `${name}.js`), name);
+      }
+      server = await serve(app => {
+        app.use(
+          serveStatic([
+            {path: join(apps, 'web'), render: () => ({user: 'guest'})},
+            {
+              path: join(apps, 'admin'),
+              base: '/admin',
+              render: () => ({user: 'root'}),
+            },
+          ]),
+        );
+        app.use(globalErrorHandler({isDev: false}));
+      });
+      const text = (path: string) =>
+        fetch(server!.url + path, {headers: html}).then(res => res.text());
+
+      expect(await text('/admin')).toBe('<p>admin root</p>');
+      expect(await text('/admin/users/1')).toBe('<p>admin root</p>');
+      expect(await text('/')).toBe('<p>web guest</p>');
+      expect(await text('/administrator')).toBe('<p>web guest</p>');
+      expect(await text('/admin/admin.js')).toBe('admin');
+      expect(await text('/web.js')).toBe('web');
+      expect((await fetch(`${server.url}/admin/web.js`)).status).toBe(404);
+    } finally {
+      rmSync(apps, {recursive: true, force: true});
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {SseRes, handler} from '../src';
+import {serve} from './helpers';
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+const failing = async function* () {
+  yield {event: 'tick', data: {i: 1}};
+  throw new Error('feed failed');
+};
+
+describe('event streams', () => {
+  it('logs errors of bare async generators with the handler write', async () => {
+    const errors: unknown[] = [];
+    const write = (error: unknown) => errors.push(error);
+    server = await serve(app => {
+      app.get('/bare', handler(failing, {write}));
+      app.get(
+        '/sse',
+        handler(() => new SseRes(failing, {heartbeat: 0}), {write}),
+      );
+    });
+
+    for (const path of ['/bare', '/sse']) {
+      const res = await fetch(server.url + path);
+      expect(res.headers.get('content-type')).toContain('text/event-stream');
+      const text = await res.text();
+      expect(text).toContain('event: tick');
+      expect(text).toContain('event: error');
+    }
+    expect(errors.map(error => (error as Error).message)).toEqual([
+      'feed failed',
+      'feed failed',
+    ]);
+  });
+
+  it('keeps the SseRes write over the handler write', async () => {
+    const own: unknown[] = [];
+    const fallback: unknown[] = [];
+    server = await serve(app => {
+      app.get(
+        '/sse',
+        handler(() => new SseRes(failing, {write: e => own.push(e)}), {
+          write: e => fallback.push(e),
+        }),
+      );
+    });
+    await (await fetch(`${server.url}/sse`)).text();
+    expect(own).toHaveLength(1);
+    expect(fallback).toHaveLength(0);
+  });
+});
+
+describe('SseRes', () => {
+  it('strips line breaks from event names and ids', async () => {
+    server = await serve(app => {
+      app.get(
+        '/sse',
+        handler(
+          () =>
+            new SseRes(
+              (async function* () {
+                yield {
+                  event: 'tick\ndata: forged',
+                  id: '1\r\nevent: x',
+                  data: 'a\nb',
+                };
+              })(),
+              {heartbeat: 0},
+            ),
+        ),
+      );
+    });
+    const text = await (await fetch(`${server.url}/sse`)).text();
+    expect(text).toBe(
+      'event: tickdata: forged\nid: 1event: x\ndata: a\ndata: b\n\n',
+    );
+  });
+
+  it('removes the listeners of each backpressured write', async () => {
+    const counts: number[] = [];
+    const chunk = 'x'.repeat(256 * 1024);
+    server = await serve(app => {
+      app.get(
+        '/sse',
+        handler(
+          (_req, res) =>
+            new SseRes(
+              (async function* () {
+                for (let i = 0; i < 20; i++) {
+                  counts.push(
+                    res.listenerCount('close') + res.listenerCount('drain'),
+                  );
+                  yield chunk;
+                }
+              })(),
+              {heartbeat: 0},
+            ),
+        ),
+      );
+    });
+    const text = await (await fetch(`${server.url}/sse`)).text();
+    expect(text.length).toBeGreaterThan(20 * chunk.length);
+    expect(new Set(counts.slice(1)).size).toBe(1);
+  });
+});
@@ -0,0 +1,71 @@
+import {createReadStream, mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {Readable} from 'stream';
+import {afterAll, afterEach, beforeAll, describe, expect, it} from 'vitest';
+import {StreamRes, globalErrorHandler, handler} from '../src';
+import {serve} from './helpers';
+
+let dir: string;
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'exutile-stream-'));
+  writeFileSync(join(dir, 'report.csv'), 'id\n1\n');
+});
+afterAll(() => rmSync(dir, {recursive: true, force: true}));
+afterEach(() => server?.close());
+
+const start = (source: () => Readable | AsyncIterable<string>) =>
+  serve(app => {
+    app.get(
+      '/report',
+      handler(() => new StreamRes(source(), {contentType: 'text/csv'})),
+    );
+    app.use(globalErrorHandler({isDev: false}));
+  }).then(started => (server = started));
+
+describe('StreamRes', () => {
+  it('streams the source', async () => {
+    const {url} = await start(() => createReadStream(join(dir, 'report.csv')));
+    const res = await fetch(`${url}/report`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toContain('text/csv');
+    expect(await res.text()).toBe('id\n1\n');
+  });
+
+  it('streams empty and async iterable sources', async () => {
+    const {url} = await start(() =>
+      (async function* () {
+        yield 'a';
+        yield 'b';
+      })(),
+    );
+    expect(await (await fetch(`${url}/report`)).text()).toBe('ab');
+    await server!.close();
+
+    const empty = await start(() => Readable.from([]));
+    const res = await fetch(`${empty.url}/report`);
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe('');
+  });
+
+  it('sends an error response when the source fails to open', async () => {
+    const {url} = await start(() => createReadStream(join(dir, 'missing.csv')));
+    const res = await fetch(`${url}/report`);
+    expect(res.status).toBe(404);
+    expect(res.headers.get('content-type')).toContain('application/json');
+    expect((await res.json()).message).toBe('File not found');
+  });
+
+  it('sends an error response when the source fails before its first chunk', async () => {
+    const {url} = await start(() =>
+      (async function* () {
+        throw new Error('query failed');
+      })(),
+    );
+    const res = await fetch(`${url}/report`);
+    expect(res.status).toBe(500);
+    expect((await res.json()).status).toBe(500);
+  });
+});
@@ -0,0 +1,155 @@
+import {mkdirSync, mkdtempSync, rmSync, writeFileSync} from 'fs';
+import {createRequire} from 'module';
+import {tmpdir} from 'os';
+import {join} from 'path';
+import {describe, expect, it} from 'vitest';
+import {
+  ApiRes,
+  ConflictError,
+  HttpStatus,
+  NotFoundError,
+  globalErrorHandler,
+  handler,
+} from '../src';
+import {
+  createMocks,
+  expectApiRes,
+  expectHttpError,
+  invoke,
+  readResponse,
+  testingMatchers,
+} from '../src/testing';
+import pkg from '../package.json';
+
+expect.extend(testingMatchers);
+
+const getUser = handler(req => {
+  if (req.params.id !== '1') throw new NotFoundError('User not found');
+  return ApiRes.ok({id: '1', name: 'Alice'}, 'Found user');
+});
+
+describe('createMocks', () => {
+  it('fakes an Express request and records the response', async () => {
+    const {req, res} = createMocks({
+      method: 'post',
+      url: '/users?role=admin',
+      headers: {'X-Tenant': 'acme'},
+      params: {id: '7'},
+      body: {name: 'Bob'},
+      props: {user: {id: 'u1'}},
+    });
+    expect(req.method).toBe('POST');
+    expect(req.get('x-tenant')).toBe('acme');
+    expect(req.is('json')).toBe('json');
+    expect(req.query).toEqual({role: 'admin'});
+    expect(req.params.id).toBe('7');
+    expect((req as any).user).toEqual({id: 'u1'});
+
+    res.status(201).set('Location', '/users/7').json({id: '7'});
+    await new Promise(resolve => res.once('finish', resolve));
+    const recorded = readResponse(res);
+    expect(recorded).toMatchObject({
+      status: 201,
+      body: {id: '7'},
+      text: '{"id":"7"}',
+      ended: true,
+    });
+    expect(recorded.headers.location).toBe('/users/7');
+  });
+
+  it('rejects responses it did not create', () => {
+    expect(() => readResponse({} as any)).toThrow(/createMocks/);
+  });
+});
+
+describe('invoke', () => {
+  it('returns the response of a handler', async () => {
+    const result = await invoke(getUser, {params: {id: '1'}});
+    expect(result.nextCalled).toBe(false);
+    expectApiRes(result, {
+      status: 200,
+      message: 'Found user',
+      result: {id: '1', name: 'Alice'},
+    });
+    expect(result).toBeApiRes({status: 200});
+  });
+
+  it('returns errors passed to next, or the error handler body', async () => {
+    const failed = await invoke(getUser, {params: {id: 'x'}});
+    expect(failed.nextCalled).toBe(true);
+    expectHttpError(failed, NotFoundError, {message: 'User not found'});
+    expect(failed).toBeHttpError(HttpStatus.NOT_FOUND);
+
+    const sent = await invoke([getUser, globalErrorHandler({isDev: false})], {
+      params: {id: 'x'},
+    });
+    expect(sent.error).toBeUndefined();
+    expectHttpError(sent, NotFoundError, {message: 'User not found'});
+
+    const problem = await invoke(
+      [getUser, globalErrorHandler({isDev: false, format: 'problem'})],
+      {params: {id: 'x'}},
+    );
+    expect(problem.headers['content-type']).toContain('problem+json');
+    expect(problem).toBeHttpError(404, {message: 'User not found'});
+  });
+
+  it('passes the error option to error-handling middleware', async () => {
+    const error = new ConflictError('Email taken');
+    error.code = 'EMAIL_TAKEN';
+    const result = await invoke(globalErrorHandler({isDev: false}), {error});
+    expectHttpError(result, ConflictError, {code: 'EMAIL_TAKEN'});
+  });
+
+  it('rejects when nothing responds in time', async () => {
+    await expect(invoke(() => undefined, {timeout: 20})).rejects.toThrow(
+      /did not respond/,
+    );
+  });
+});
+
+describe('assertions', () => {
+  it('fail with a readable message on mismatch', async () => {
+    const result = await invoke(getUser, {params: {id: '1'}});
+    expect(() => expectApiRes(result, {status: 201})).toThrow(
+      /Unexpected status/,
+    );
+    expect(() => expectHttpError(result, NotFoundError)).toThrow(
+      /Unexpected status/,
+    );
+    expect(() => expectHttpError({...result, body: 'ok'}, 404)).toThrow(
+      /Expected an HttpError body/,
+    );
+    expect(result).not.toBeHttpError(NotFoundError);
+
+    const failed = await invoke(getUser, {params: {id: 'x'}});
+    expect(() => expectApiRes(failed)).toThrow(/next was called/);
+    expect(() => expectHttpError(failed, ConflictError)).toThrow(
+      /Expected ConflictError/,
+    );
+    expect(failed).not.toBeApiRes();
+  });
+});
+
+describe('package exports', () => {
+  it('resolves the entry points and deep dist imports', () => {
+    const root = mkdtempSync(join(tmpdir(), 'exutile-exports-'));
+    try {
+      const dir = join(root, 'node_modules', 'exutile');
+      mkdirSync(join(dir, 'dist'), {recursive: true});
+      writeFileSync(join(dir, 'package.json'), JSON.stringify(pkg));
+      for (const name of ['index', 'testing', 'handler'])
+        writeFileSync(join(dir, 'dist', `${name}.js`), '');
+      const require = createRequire(join(root, 'index.js'));
+      const resolve = (id: string) =>
+        require.resolve(id).slice(dir.length).replace(/\\/g, '/');
+
+      expect(resolve('exutile')).toBe('/dist/index.js');
+      expect(resolve('exutile/testing')).toBe('/dist/testing.js');
+      expect(resolve('exutile/dist/handler')).toBe('/dist/handler.js');
+      expect(resolve('exutile/dist/handler.js')).toBe('/dist/handler.js');
+    } finally {
+      rmSync(root, {recursive: true, force: true});
+    }
+  });
+});
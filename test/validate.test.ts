@@ -0,0 +1,134 @@
+import express from 'express';
+import {afterEach, describe, expect, it} from 'vitest';
+import {
+  ApiRes,
+  HttpStatus,
+  UnprocessableEntityError,
+  globalErrorHandler,
+  schemaHandler,
+} from '../src';
+import {serve} from './helpers';
+import type {StandardSchema, Validator} from '../src';
+
+type SchemaOptions = Parameters<typeof schemaHandler>[2];
+
+let server: Awaited<ReturnType<typeof serve>> | undefined;
+afterEach(() => server?.close());
+
+/** Plain validator of a numeric string field, parsed into a number. */
+const numeric =
+  (key: string): Validator<Record<string, number>> =>
+  value => {
+    const raw = (value as any)?.[key];
+    return /^\d+$/.test(raw ?? '')
+      ? {value: {[key]: Number(raw)}}
+      : {issues: [{message: 'Expected a number', path: [key]}]};
+  };
+
+/** Async Standard Schema of `{name: string}` with nested issue paths. */
+const nameSchema: StandardSchema<{name: string}> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: async value => {
+      const name = (value as any)?.user?.name;
+      return typeof name === 'string'
+        ? {value: {name: name.trim()}}
+        : {issues: [{message: 'Required', path: ['user', {key: 'name'}]}]};
+    },
+  },
+};
+
+const start = (options?: SchemaOptions, result?: unknown) =>
+  serve(app => {
+    app.use(express.json());
+    app.post(
+      '/users/:id',
+      schemaHandler(
+        {
+          params: numeric('id'),
+          query: numeric('page'),
+          body: nameSchema,
+          result: numeric('id'),
+        },
+        async ({params, query, body}) =>
+          ApiRes.ok(result ?? {id: params.id, page: query.page, ...body}),
+        options,
+      ),
+    );
+    app.use(globalErrorHandler({isDev: false}));
+  }).then(started => (server = started));
+
+const post = (path: string, body: unknown) =>
+  fetch(server!.url + path, {
+    method: 'POST',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify(body),
+  });
+
+describe('schemaHandler', () => {
+  it('passes parsed values from validators and Standard Schemas', async () => {
+    await start();
+    const res = await post('/users/7?page=2', {user: {name: ' Alice '}});
+    expect(res.status).toBe(200);
+    expect((await res.json()).result).toEqual({id: 7, page: 2, name: 'Alice'});
+  });
+
+  it('lists the failures of every part', async () => {
+    await start();
+    const res = await post('/users/abc', {user: {}});
+    expect(res.status).toBe(400);
+    expect(await res.json()).toMatchObject({
+      error: 'BadRequestError',
+      message: 'Validation failed',
+      detail: {
+        errors: [
+          {path: 'params.id', message: 'Expected a number'},
+          {path: 'query.page', message: 'Expected a number'},
+          {path: 'body.user.name', message: 'Required'},
+        ],
+      },
+    });
+
+    const query = await post('/users/1?page=x', {user: {name: 'A'}});
+    expect((await query.json()).detail.errors).toEqual([
+      {path: 'query.page', message: 'Expected a number'},
+    ]);
+  });
+
+  it('throws the error class of the configured status', async () => {
+    let caught: unknown;
+    server = await serve(app => {
+      app.post(
+        '/users/:id',
+        schemaHandler({params: numeric('id')}, () => ApiRes.ok(null), {
+          status: HttpStatus.UNPROCESSABLE_ENTITY,
+        }),
+      );
+      app.use((err: unknown, _req: any, res: any, _next: any) => {
+        caught = err;
+        res.status(500).end();
+      });
+    });
+    await post('/users/abc', {});
+    expect(caught).toBeInstanceOf(UnprocessableEntityError);
+    expect((caught as UnprocessableEntityError).status).toBe(422);
+  });
+
+  it('validates results in dev mode only', async () => {
+    const invalid = {id: 'one'};
+    await start({isDev: false}, invalid);
+    let res = await post('/users/1?page=1', {user: {name: 'A'}});
+    expect(res.status).toBe(200);
+    expect((await res.json()).result).toEqual(invalid);
+    await server!.close();
+
+    await start({isDev: true}, invalid);
+    res = await post('/users/1?page=1', {user: {name: 'A'}});
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({
+      message: 'Result validation failed',
+      detail: {errors: [{path: 'result.id', message: 'Expected a number'}]},
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import {defineConfig} from 'vitest/config';
+
+const include = ['test/**/*.test.ts'];
+
+// Run every test against Express 4 (`express`) and Express 5 (`express5` alias)
+export default defineConfig({
+  test: {
+    projects: [
+      {test: {name: 'express4', include, env: {EXPRESS_MAJOR: '4'}}},
+      {
+        resolve: {alias: {express: 'express5'}},
+        test: {name: 'express5', include, env: {EXPRESS_MAJOR: '5'}},
+      },
+    ],
+  },
+});